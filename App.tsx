@@ -1,23 +1,102 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Pitch from './components/Pitch';
 import Scoreboard from './components/Scoreboard';
 import Commentary from './components/Commentary';
-import { Team, CommentaryLog } from './types';
-import { CONFIG } from './constants';
+import ReplayViewer, { downloadReplay } from './components/ReplayViewer';
+import ControllerSetup from './components/ControllerSetup';
+import TacticsEditor from './components/TacticsEditor';
+import RosterEditor from './components/RosterEditor';
+import TournamentPanel from './components/TournamentPanel';
+import StatsPanel, { PossessionBar } from './components/StatsPanel';
+import MatchAnalysis from './components/MatchAnalysis';
+import MatchRulesForm from './components/MatchRulesForm';
+import ShootoutBoard from './components/ShootoutBoard';
+import HighlightViewer, { highlightLabel } from './components/HighlightViewer';
+import { Team, GameMode, Difficulty, CommentaryLog, MatchReplay, PadAssignments, BallHolder, TeamSetups, Rosters, Tournament, MatchStats, MatchRules, Shootout, ShootoutKick, MatchClock, MatchPhase, Highlight } from './types';
+import { AI_PROFILES, CONFIG, DEFAULT_MATCH_RULES, DEFAULT_TEAM_SETUPS } from './constants';
 import { generateCommentary } from './services/geminiService';
+import { createRng, parseSeed, randomSeed } from './engine/random';
+import { createReplayRecorder, parseReplay, ReplayRecorder } from './engine/replay';
+import { autoAssignPads } from './services/gamepadService';
+import { loadTeamSetups, saveTeamSetups } from './services/tacticsService';
+import { loadRosters, saveRosters } from './services/rosterService';
+import { loadTournament, saveTournament } from './services/tournamentService';
+import { simulateFixtureInBackground } from './services/simulationService';
+import { loadMatchRules, saveMatchRules } from './services/rulesService';
+import { formationName } from './engine/formation';
+import { fixtureLineup, fixtureResult, fixtureRules, fixtureSeed, isAiFixture, isPlayable, recordResult, roundName, winnerOf } from './engine/tournament';
+import { isExtraTime, periodName } from './engine/rules';
+import { breakLeadsTo, createMatchClock, createPhaseMachine, isLive, PHASE_LABELS, PhaseMachine, secondsLeft } from './engine/phase';
+import { createShootout, shootoutScore, shootoutWinner } from './engine/shootout';
 import { playGoalSound, playWhistleSound, startBackgroundAmbience, stopBackgroundAmbience, speakCommentary } from './services/audioService';
-import { Gamepad2, Info, Play, Pause, RotateCcw, SkipForward, Smartphone, Download, HelpCircle, X, Cpu } from 'lucide-react';
+import { Gamepad2, Info, Play, Pause, RotateCcw, SkipForward, Smartphone, Download, HelpCircle, X, Cpu, Film, Upload, LayoutGrid, Shirt, Trophy, Map as MapIcon, Target, Star } from 'lucide-react';
+
+// Who plays whom, fixed when a match kicks off: free play takes it from the start screen, a tournament fixture from its teams
+interface MatchLineup {
+  mode: GameMode;
+  difficulty: Difficulty; // Red AI's
+  rosters: Rosters;
+  setups: TeamSetups;
+  rules: MatchRules;
+}
+
+// The tournament fixture being played, and which of its sides is Blue
+interface TournamentMatch {
+  fixtureId: number;
+  blueIsHome: boolean;
+}
 
 const App: React.FC = () => {
-  const [hasStarted, setHasStarted] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [gameOver, setGameOver] = useState(false);
-  const [gameTime, setGameTime] = useState(CONFIG.matchDuration);
-  const [quarter, setQuarter] = useState(1);
-  const [score, setScore] = useState<{ [key in Team]: number }>({ [Team.BLUE]: 0, [Team.RED]: 0 });
+  const [machine, setMachine] = useState<PhaseMachine>(() => createPhaseMachine(DEFAULT_MATCH_RULES));
+  const [clock, setClock] = useState<MatchClock>(() => createMatchClock(DEFAULT_MATCH_RULES)); // The machine's, as of its last phase change or second
+  const clockRef = useRef(clock);
+  const [paused, setPaused] = useState(false);
   const [commentaryLogs, setCommentaryLogs] = useState<CommentaryLog[]>([]);
   const [installPrompt, setInstallPrompt] = useState<any>(null);
   const [showHelp, setShowHelp] = useState(false);
+  const [mode, setMode] = useState<GameMode>(GameMode.SINGLE);
+  const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.NORMAL);
+  const [matchDifficulty, setMatchDifficulty] = useState<Difficulty>(Difficulty.NORMAL); // Red AI in the current match
+  const [seedInput, setSeedInput] = useState('');
+  const [seed, setSeed] = useState(randomSeed);
+  const [matchId, setMatchId] = useState(0); // Bumped per match so Pitch remounts with the new seed
+  const commentaryRngRef = useRef(createRng(seed));
+  const [recorder, setRecorder] = useState<ReplayRecorder | null>(null);
+  const [replay, setReplay] = useState<MatchReplay | null>(null);
+  const [showReplay, setShowReplay] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [padAssignments, setPadAssignments] = useState<PadAssignments>({});
+  const [showControllers, setShowControllers] = useState(false);
+  const [possession, setPossession] = useState<BallHolder | null>(null);
+  const [matchStats, setMatchStats] = useState<MatchStats | null>(null); // Reported by Pitch as the match goes on
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [teamSetups, setTeamSetups] = useState<TeamSetups>(loadTeamSetups);
+  const [showTactics, setShowTactics] = useState(false);
+  const [rosters, setRosters] = useState<Rosters>(loadRosters);
+  const [showRosters, setShowRosters] = useState(false);
+  const [matchMode, setMatchMode] = useState<GameMode>(GameMode.SINGLE);
+  const [matchRosters, setMatchRosters] = useState<Rosters>(rosters);
+  const [matchSetups, setMatchSetups] = useState<TeamSetups>(teamSetups);
+  const [tournament, setTournament] = useState<Tournament | null>(loadTournament);
+  const tournamentRef = useRef(tournament); // The latest, for results that come back from the background
+  const simulationRef = useRef<{ cancelled: boolean } | null>(null); // The AI fixtures being simulated, if any
+  const [simulating, setSimulating] = useState(false);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const [showTournament, setShowTournament] = useState(false);
+  const [tournamentMatch, setTournamentMatch] = useState<TournamentMatch | null>(null);
+  const [rules, setRules] = useState<MatchRules>(loadMatchRules);
+  const [matchRules, setMatchRules] = useState<MatchRules>(rules);
+  const [shootout, setShootout] = useState<Shootout | null>(null); // Once a level match goes to penalties
+  const [highlights, setHighlights] = useState<Highlight[]>([]); // Goal replays kept during the current match
+  const [viewingHighlight, setViewingHighlight] = useState<number | null>(null);
+
+  const { score, period } = clock;
+  const gameTime = secondsLeft(clock);
+  const hasStarted = clock.phase !== MatchPhase.PRE_MATCH;
+  const gameOver = clock.phase === MatchPhase.FULL_TIME;
+  const running = !paused && isLive(clock.phase);
+  const breakLeadsToNext = clock.phase === MatchPhase.PERIOD_BREAK ? breakLeadsTo(clock, matchRules) : null;
+  const penalties = shootout && shootoutScore(shootout);
 
   // PWA Install Prompt Listener
   useEffect(() => {
@@ -29,6 +108,17 @@ const App: React.FC = () => {
     return () => window.removeEventListener('beforeinstallprompt', handler);
   }, []);
 
+  // Gamepad hot-plug: give newly connected pads a default team
+  useEffect(() => {
+    const handler = () => setPadAssignments(prev => autoAssignPads(prev));
+    window.addEventListener('gamepadconnected', handler);
+    window.addEventListener('gamepaddisconnected', handler);
+    return () => {
+      window.removeEventListener('gamepadconnected', handler);
+      window.removeEventListener('gamepaddisconnected', handler);
+    };
+  }, []);
+
   // F1 Key Listener for Help
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -56,11 +146,12 @@ const App: React.FC = () => {
 
   const addCommentary = useCallback(async (text: string, type: 'goal' | 'start' | 'halftime' | 'end' | 'generic', context: string = "") => {
     const id = Date.now().toString();
-    const timeVal = CONFIG.matchDuration - gameTime;
+    const timeVal = matchRules.periodLength - gameTime;
     
     let finalText = text;
     if (process.env.API_KEY && (type === 'goal' || type === 'start' || type === 'end')) {
-       const aiText = await generateCommentary(text, `현재 스코어: 블루 ${score.BLUE} - 레드 ${score.RED}. ${quarter}쿼터, 남은 시간: ${gameTime}초. ${context}`);
+       const names: [string, string] = [matchRosters[Team.BLUE].name, matchRosters[Team.RED].name];
+       const aiText = await generateCommentary(text, `현재 스코어: ${names[0]} ${score.BLUE} - ${names[1]} ${score.RED}. ${periodName(matchRules, period)}, 남은 시간: ${gameTime}초. ${context}`, names, commentaryRngRef.current.next);
        if (aiText) finalText = aiText;
     }
     
@@ -75,79 +166,224 @@ const App: React.FC = () => {
       timestamp: timeVal,
       type
     }]);
-  }, [gameTime, score, quarter]);
-
-  const handleStartGame = () => {
-    setHasStarted(true);
-    setIsPlaying(true);
-    setGameOver(false);
-    setQuarter(1);
-    setGameTime(CONFIG.matchDuration);
-    setScore({ [Team.BLUE]: 0, [Team.RED]: 0 });
+  }, [gameTime, score, period, matchRosters, matchRules]);
+
+  const handleTeamSetupsChange = (setups: TeamSetups) => {
+    setTeamSetups(setups);
+    saveTeamSetups(setups);
+  };
+
+  const handleRostersChange = (next: Rosters) => {
+    setRosters(next);
+    saveRosters(next);
+  };
+
+  const handleRulesChange = (next: MatchRules) => {
+    setRules(next);
+    saveMatchRules(next);
+  };
+
+  const cancelSimulation = useCallback(() => {
+    if (simulationRef.current) simulationRef.current.cancelled = true;
+    simulationRef.current = null;
+    setSimulating(false);
+  }, []);
+
+  const handleTournamentChange = (next: Tournament | null) => {
+    // A deleted or newly drawn tournament has nothing to do with fixtures still being simulated
+    if (next?.seed !== tournamentRef.current?.seed) cancelSimulation();
+    tournamentRef.current = next;
+    setTournament(next);
+    saveTournament(next);
+  };
+
+  // Plays out AI-vs-AI fixtures one after another in the background (just `only`, if given). Each result
+  // goes into the tournament as it stands when it comes back, so edits made meanwhile aren't lost; knockout
+  // winners can set up new AI ties, which are picked up as they appear
+  const handleSimulateFixtures = async (only?: number) => {
+    cancelSimulation();
+    const run = { cancelled: false };
+    simulationRef.current = run;
+    setSimulating(true);
+    setSimulationError(null);
+    try {
+      for (;;) {
+        const current = tournamentRef.current;
+        const next = current?.fixtures.find(f => isPlayable(f) && isAiFixture(current, f) && (only === undefined || f.id === only));
+        if (!current || !next) break;
+        const result = await simulateFixtureInBackground(current, next);
+        if (run.cancelled) return;
+        const latest = tournamentRef.current!;
+        if (isPlayable(latest.fixtures[next.id])) handleTournamentChange(recordResult(latest, next.id, result));
+      }
+    } catch {
+      if (!run.cancelled) setSimulationError('경기 시뮬레이션 중 오류가 발생했습니다. 다시 시도해 주세요.');
+    } finally {
+      if (!run.cancelled) {
+        simulationRef.current = null;
+        setSimulating(false);
+      }
+    }
+  };
+
+  const freePlayLineup = (): MatchLineup => ({
+    mode,
+    // In 2P only the teammates of each human are AI, so keep it even at Normal
+    difficulty: mode === GameMode.VERSUS ? Difficulty.NORMAL : difficulty,
+    rosters,
+    setups: teamSetups,
+    rules,
+  });
+
+  const handleStartGame = (matchSeed: number = parseSeed(seedInput) ?? randomSeed(), lineup: MatchLineup = freePlayLineup(), fixture: TournamentMatch | null = null) => {
+    setSeed(matchSeed);
+    setMatchId(prev => prev + 1);
+    commentaryRngRef.current = createRng(matchSeed);
+    setMatchMode(lineup.mode);
+    setMatchDifficulty(lineup.difficulty);
+    setMatchRosters(lineup.rosters);
+    setMatchSetups(lineup.setups);
+    setMatchRules(lineup.rules);
+    setShootout(null);
+    setHighlights([]);
+    setTournamentMatch(fixture);
+    setRecorder(createReplayRecorder(matchSeed, CONFIG, lineup.difficulty, lineup.setups, lineup.rosters, lineup.rules));
+    setReplay(null);
+    const next = createPhaseMachine(lineup.rules);
+    setMachine(next);
+    clockRef.current = next.clock();
+    setPaused(false);
     setCommentaryLogs([]);
+    setPossession(null);
+    setMatchStats(null);
     playWhistleSound();
-    startBackgroundAmbience(); 
-    addCommentary("창의미래교육 축구대회, 1쿼터가 시작됩니다!", "start");
+    const title = fixture && tournament ? `${tournament.name} ${roundName(tournament, tournament.fixtures[fixture.fixtureId])}` : "창의미래교육 축구대회";
+    addCommentary(`${title}, ${lineup.rosters[Team.BLUE].name} 대 ${lineup.rosters[Team.RED].name}, 킥오프!`, "start");
+    applyClock(next.kickOff());
   };
 
-  const handleNextQuarter = () => {
-    if (quarter >= 4) return;
-    setQuarter(prev => prev + 1);
-    setGameTime(CONFIG.matchDuration);
-    setIsPlaying(true);
-    playWhistleSound();
-    startBackgroundAmbience();
-    addCommentary(`${quarter + 1}쿼터 시작!`, "start");
+  // Human sides play as Blue, so with the P1 tactics; AI sides use the default shape
+  const handlePlayFixture = (fixtureId: number) => {
+    if (!tournament) return;
+    const fixture = tournament.fixtures[fixtureId];
+    const lineup = fixtureLineup(tournament, fixture);
+    setShowTournament(false);
+    handleStartGame(fixtureSeed(tournament, fixture), {
+      mode: lineup.versus ? GameMode.VERSUS : GameMode.SINGLE,
+      difficulty: lineup.versus ? Difficulty.NORMAL : lineup.difficulty,
+      rosters: lineup.rosters,
+      setups: { [Team.BLUE]: teamSetups[Team.BLUE], [Team.RED]: lineup.versus ? teamSetups[Team.RED] : DEFAULT_TEAM_SETUPS[Team.RED] },
+      rules: fixtureRules(tournament, fixture),
+    }, { fixtureId, blueIsHome: lineup.blueIsHome });
   };
 
-  const handleGoal = useCallback((scoringTeam: Team) => {
-    setScore(prev => ({ ...prev, [scoringTeam]: prev[scoringTeam] + 1 }));
-    playGoalSound();
-    
-    const context = scoringTeam === Team.BLUE ? "사용자(블루팀)가 멋진 골을 넣었습니다!" : "AI(레드팀)가 골을 넣어 반격합니다!";
-    const teamName = scoringTeam === Team.BLUE ? "블루팀" : "레드팀";
-    addCommentary(`${teamName} 득점!`, 'goal', context);
-    
-  }, [addCommentary]);
+  const handleSaveHighlight = useCallback((highlight: Highlight) => setHighlights(prev => [...prev, highlight]), []);
 
-  const handleQuarterEnd = useCallback(() => {
-    setIsPlaying(false);
-    playWhistleSound();
-    stopBackgroundAmbience();
-    if (quarter < 4) {
-      addCommentary(`${quarter}쿼터 종료! 잠시 휴식 후 계속됩니다.`, 'halftime');
-    } else {
-      setGameOver(true);
-      const winner = score[Team.BLUE] > score[Team.RED] ? "블루팀" : score[Team.RED] > score[Team.BLUE] ? "레드팀" : "무승부";
-      addCommentary(`경기 완전 종료! ${winner} 승리!`, 'end', `최종 스코어: 블루 ${score.BLUE} - 레드 ${score.RED}`);
+  const handleNextPeriod = () => applyClock(machine.kickOff());
+
+  const handleStartShootout = () => {
+    setShootout(createShootout(Team.BLUE));
+    applyClock(machine.startShootout());
+  };
+
+  // Full time, with the shootout score if it went to penalties
+  const finishMatch = useCallback((final: { [key in Team]: number }, penalties: { [key in Team]: number } | null) => {
+    if (recorder) setReplay(recorder.finish());
+    const blue = matchRosters[Team.BLUE].name;
+    const red = matchRosters[Team.RED].name;
+    const total = (team: Team) => final[team] * 100 + (penalties?.[team] ?? 0);
+    let result = total(Team.BLUE) > total(Team.RED) ? `${blue} 승리!` : total(Team.RED) > total(Team.BLUE) ? `${red} 승리!` : "무승부!";
+    if (penalties) result = `승부차기 ${penalties[Team.BLUE]}:${penalties[Team.RED]}, ${result}`;
+
+    if (tournament && tournamentMatch) {
+      const fixture = tournament.fixtures[tournamentMatch.fixtureId];
+      const [home, away] = tournamentMatch.blueIsHome ? [Team.BLUE, Team.RED] : [Team.RED, Team.BLUE];
+      const outcome = fixtureResult(final[home], final[away], penalties && { home: penalties[home], away: penalties[away] }, false);
+      handleTournamentChange(recordResult(tournament, fixture.id, outcome));
+      const winner = winnerOf({ ...fixture, result: outcome });
+      if (fixture.stage === 'knockout' && winner !== null) result += ` ${tournament.teams[winner].roster.name} 진출!`;
     }
-  }, [quarter, score, addCommentary]);
+    addCommentary(`경기 완전 종료! ${result}`, 'end', `최종 스코어: ${blue} ${final.BLUE} - ${red} ${final.RED}`);
+  }, [addCommentary, recorder, matchRosters, tournament, tournamentMatch]);
+
+  // Every clock update from the machine comes through here. The screen follows `clock`;
+  // whistles, goal sounds and commentary follow the phase transitions.
+  const applyClock = useCallback((next: MatchClock) => {
+    const prev = clockRef.current;
+    clockRef.current = next;
+    setClock(next);
+    if (next.phase === prev.phase) return;
+
+    switch (next.phase) {
+      case MatchPhase.KICKOFF:
+        if (prev.phase === MatchPhase.PERIOD_BREAK) {
+          playWhistleSound();
+          addCommentary(`${periodName(matchRules, next.period)} 시작!`, "start");
+        }
+        break;
+      case MatchPhase.GOAL_CELEBRATION: {
+        playGoalSound();
+        const scoringTeam = next.lastGoal!;
+        const teamName = matchRosters[scoringTeam].name;
+        const context = matchMode === GameMode.VERSUS
+          ? `${scoringTeam === Team.BLUE ? "플레이어 1" : "플레이어 2"}(${teamName})가 골을 넣었습니다!`
+          : scoringTeam === Team.BLUE ? `사용자(${teamName})가 멋진 골을 넣었습니다!` : `AI(${teamName})가 골을 넣어 반격합니다!`;
+        addCommentary(`${teamName} 득점!`, 'goal', context);
+        break;
+      }
+      case MatchPhase.PERIOD_BREAK:
+        playWhistleSound();
+        if (breakLeadsTo(next, matchRules) === 'shootout') {
+          addCommentary(`여전히 동점! 승부차기로 승자를 가립니다!`, 'halftime');
+        } else if (next.period === matchRules.periods) {
+          addCommentary(`동점으로 정규 시간 종료! 먼저 넣는 팀이 이기는 골든골 연장전입니다.`, 'halftime');
+        } else {
+          addCommentary(`${periodName(matchRules, next.period)} 종료! 잠시 휴식 후 계속됩니다.`, 'halftime');
+        }
+        break;
+      case MatchPhase.SHOOTOUT:
+        playWhistleSound();
+        break;
+      case MatchPhase.FULL_TIME:
+        playWhistleSound();
+        finishMatch(next.score, prev.phase === MatchPhase.SHOOTOUT && shootout ? shootoutScore(shootout) : null);
+        break;
+    }
+  }, [addCommentary, finishMatch, matchRules, matchRosters, matchMode, shootout]);
+
+  const handlePenaltyTaken = useCallback((kick: ShootoutKick) => {
+    setShootout(prev => prev && { ...prev, kicks: [...prev.kicks, kick] });
+    if (kick.scored) playGoalSound();
+  }, []);
 
-  // Handle BGM Control
+  // The shootout is over as soon as one side can't be caught
   useEffect(() => {
-    if (!isPlaying) {
+    if (clock.phase === MatchPhase.SHOOTOUT && shootout && shootoutWinner(shootout) !== null) applyClock(machine.endShootout());
+  }, [clock.phase, shootout, machine, applyClock]);
+
+  const handleReplayImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        setReplay(parseReplay(text));
+        setReplayError(null);
+        setShowReplay(true);
+      } catch (err: any) {
+        setReplayError(err.message);
+      }
+    });
+  };
+
+  // Crowd noise while the pitch is live
+  useEffect(() => {
+    if (!running) {
        stopBackgroundAmbience();
     } else {
        startBackgroundAmbience();
     }
-  }, [isPlaying]);
-
-  // Timer
-  useEffect(() => {
-    let interval: ReturnType<typeof setInterval>;
-    if (isPlaying && gameTime > 0) {
-      interval = setInterval(() => {
-        setGameTime(prev => {
-          if (prev <= 1) {
-            handleQuarterEnd();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    }
-    return () => clearInterval(interval);
-  }, [isPlaying, gameTime, handleQuarterEnd]);
+  }, [running]);
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center p-2 font-sans overflow-x-hidden relative">
@@ -170,8 +406,21 @@ const App: React.FC = () => {
         <div className="flex justify-center items-center gap-2 text-gray-400 text-xs md:text-sm flex-wrap relative">
           <div className="flex items-center gap-2">
             <Gamepad2 size={14} /> 
-            <span><span className="font-bold text-white px-1 bg-gray-800 rounded">WASD</span> 이동</span>
-            <span><span className="font-bold text-white px-1 bg-gray-800 rounded">Space</span> 슛</span>
+            {(hasStarted ? matchMode : mode) === GameMode.VERSUS ? (
+              <>
+                <span className="text-blue-400">P1 <span className="font-bold text-white px-1 bg-gray-800 rounded">WASD</span> + <span className="font-bold text-white px-1 bg-gray-800 rounded">Space</span></span>
+                <span className="text-red-400">P2 <span className="font-bold text-white px-1 bg-gray-800 rounded">방향키/IJKL</span> + <span className="font-bold text-white px-1 bg-gray-800 rounded">Enter</span></span>
+              </>
+            ) : (
+              <>
+                <span><span className="font-bold text-white px-1 bg-gray-800 rounded">WASD</span> 이동</span>
+                <span><span className="font-bold text-white px-1 bg-gray-800 rounded">Space</span> 슛</span>
+                <span><span className="font-bold text-white px-1 bg-gray-800 rounded">E</span> 패스</span>
+                <span><span className="font-bold text-white px-1 bg-gray-800 rounded">Q</span> 교체</span>
+                <span><span className="font-bold text-white px-1 bg-gray-800 rounded">R</span> 태클</span>
+                <span><span className="font-bold text-white px-1 bg-gray-800 rounded">Shift</span> 스프린트</span>
+              </>
+            )}
           </div>
           <button 
             onClick={() => setShowHelp(true)}
@@ -179,6 +428,12 @@ const App: React.FC = () => {
           >
             <HelpCircle size={12} /> F1 도움말
           </button>
+          <button 
+            onClick={() => setShowControllers(true)}
+            className="flex items-center gap-1 px-2 py-0.5 bg-gray-800 rounded-lg hover:bg-gray-700 transition-colors border border-gray-700 text-xs md:text-xs font-mono text-emerald-400"
+          >
+            <Gamepad2 size={12} /> 컨트롤러 {Object.values(padAssignments).filter(Boolean).length > 0 && `(${Object.values(padAssignments).filter(Boolean).length})`}
+          </button>
         </div>
       </div>
 
@@ -189,40 +444,65 @@ const App: React.FC = () => {
           
           <div className="flex w-full items-center justify-between mb-1 px-2">
              <div className="text-sm md:text-lg font-black italic text-emerald-400">
-                {gameOver ? "경기 종료" : `QUARTER ${quarter}/4`}
+                {tournamentMatch && tournament && `${roundName(tournament, tournament.fixtures[tournamentMatch.fixtureId])} · `}
+                {gameOver ? "경기 종료" : shootout ? "승부차기" : isExtraTime(matchRules, period) ? periodName(matchRules, period) : `${periodName(matchRules, period)} (${period}/${matchRules.periods})`}
+                {hasStarted && PHASE_LABELS[clock.phase] && <span className="ml-2 text-xs not-italic font-bold text-yellow-300">{paused ? '일시 정지' : PHASE_LABELS[clock.phase]}</span>}
              </div>
           </div>
           
-          <Scoreboard score={score} time={gameTime} />
+          <Scoreboard score={score} time={gameTime} possession={possession} rosters={matchRosters} />
+          {hasStarted && matchStats && <PossessionBar stats={matchStats} rosters={matchRosters} className="w-full max-w-sm -mt-1 mb-2 px-2" />}
+          {shootout && <ShootoutBoard shootout={shootout} rosters={matchRosters} className="w-full max-w-sm mb-2 px-2" />}
           
           <Pitch 
-            isPlaying={isPlaying} 
-            onGoal={handleGoal} 
-            gameTime={gameTime}
-            onGameOver={handleQuarterEnd}
-            score={score}
+            machine={machine}
+            phase={clock.phase}
+            paused={paused}
+            onClockChange={applyClock}
             addCommentary={addCommentary}
-            quarter={quarter}
+            seed={seed}
+            difficulty={matchDifficulty}
+            teams={matchSetups}
+            rosters={matchRosters}
+            recorder={recorder}
+            mode={matchMode}
+            padAssignments={padAssignments}
+            shootout={shootout}
+            onPenaltyTaken={handlePenaltyTaken}
+            onSaveHighlight={handleSaveHighlight}
+            onPossessionChange={setPossession}
+            onStatsChange={setMatchStats}
+            key={matchId}
           />
 
           {/* Controls Bar */}
           <div className="w-full mt-2 flex gap-4 justify-center flex-wrap">
             {/* Initial Start Button REMOVED - Handled by Overlay */}
 
-            {/* Next Quarter */}
-            {!isPlaying && !gameOver && quarter < 4 && gameTime === 0 && (
+            {/* Next Period */}
+            {breakLeadsToNext === 'period' && (
                <button 
-                onClick={handleNextQuarter}
+                onClick={handleNextPeriod}
                 className="flex items-center gap-2 px-6 py-2 bg-yellow-600 hover:bg-yellow-500 text-white font-bold rounded-lg shadow-lg transition-transform hover:scale-105 animate-pulse text-sm"
               >
-                <SkipForward size={18} fill="currentColor" /> {quarter + 1}쿼터 시작
+                <SkipForward size={18} fill="currentColor" /> {periodName(matchRules, period + 1)} 시작
+              </button>
+            )}
+
+            {/* Penalty Shootout */}
+            {breakLeadsToNext === 'shootout' && (
+               <button 
+                onClick={handleStartShootout}
+                className="flex items-center gap-2 px-6 py-2 bg-yellow-600 hover:bg-yellow-500 text-white font-bold rounded-lg shadow-lg transition-transform hover:scale-105 animate-pulse text-sm"
+              >
+                <Target size={18} /> 승부차기 시작
               </button>
             )}
 
             {/* Playing / Pause */}
-            {isPlaying && (
+            {running && (
               <button 
-                onClick={() => setIsPlaying(false)}
+                onClick={() => setPaused(true)}
                 className="flex items-center gap-2 px-6 py-2 bg-red-600 hover:bg-red-500 text-white font-bold rounded-lg shadow-lg transition-transform hover:scale-105 text-sm"
               >
                 <Pause size={18} fill="currentColor" /> 일시 정지
@@ -230,9 +510,9 @@ const App: React.FC = () => {
             )}
             
             {/* Resume from Pause */}
-            {!isPlaying && !gameOver && gameTime > 0 && gameTime < CONFIG.matchDuration && hasStarted && (
+            {paused && isLive(clock.phase) && (
                <button 
-               onClick={() => setIsPlaying(true)}
+               onClick={() => setPaused(false)}
                className="flex items-center gap-2 px-6 py-2 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-lg shadow-lg transition-transform hover:scale-105 text-sm"
              >
                <Play size={18} fill="currentColor" /> 계속 하기
@@ -242,7 +522,7 @@ const App: React.FC = () => {
             {/* Restart after Game Over */}
             {gameOver && (
               <button 
-                onClick={handleStartGame}
+                onClick={() => handleStartGame()}
                 className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white font-bold rounded-lg shadow-lg transition-transform hover:scale-105 animate-pulse text-sm"
               >
                 <RotateCcw size={18} /> 새 경기 시작
@@ -273,7 +553,56 @@ const App: React.FC = () => {
                  <span className="text-white font-bold">Google Gemini</span>가 전해주는 생생한 실시간 해설!<br/>
                  AI 팀을 상대로 펼쳐지는 5:5 아케이드 축구 매치
                </p>
+
+               {/* Mode Select */}
+               <div className="flex gap-2 mb-4">
+                 {[GameMode.SINGLE, GameMode.VERSUS].map(m => (
+                   <button
+                     key={m}
+                     onClick={() => setMode(m)}
+                     className={`px-5 py-2 rounded-xl font-bold text-sm border transition-colors ${mode === m ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-gray-800 border-gray-600 text-gray-400 hover:text-white'}`}
+                   >
+                     {m === GameMode.SINGLE ? '1P vs AI' : '2P 대전'}
+                   </button>
+                 ))}
+               </div>
+
+               {/* AI Difficulty (1P only) */}
+               {mode === GameMode.SINGLE && (
+               <div className="mb-4 w-full max-w-md">
+                 <div className="grid grid-cols-4 gap-2">
+                   {Object.values(Difficulty).map(level => (
+                     <button
+                       key={level}
+                       onClick={() => setDifficulty(level)}
+                       className={`py-2 rounded-xl font-bold text-sm border transition-colors ${difficulty === level ? 'bg-red-600 border-red-400 text-white' : 'bg-gray-800 border-gray-600 text-gray-400 hover:text-white'}`}
+                     >
+                       {AI_PROFILES[level].label}
+                     </button>
+                   ))}
+                 </div>
+                 <p className="text-xs text-gray-400 mt-2">AI 난이도: {AI_PROFILES[difficulty].description}</p>
+               </div>
+               )}
                
+               {mode === GameMode.VERSUS ? (
+               <div className="grid grid-cols-2 gap-4 mb-8 text-sm text-gray-400 bg-black/40 p-6 rounded-2xl border border-gray-700/50 backdrop-blur w-full max-w-md">
+                 <div className="flex flex-col items-center gap-2">
+                   <span className="font-bold" style={{ color: rosters[Team.BLUE].primaryColor }}>P1 {rosters[Team.BLUE].name}</span>
+                   <div className="flex gap-1">
+                      <span className="bg-gray-700 text-white px-2 py-1 rounded border border-gray-600 shadow-sm font-mono text-xs">WASD</span>
+                      <span className="bg-gray-700 text-white px-2 py-1 rounded border border-gray-600 shadow-sm font-mono text-xs">SPACE</span>
+                   </div>
+                 </div>
+                 <div className="flex flex-col items-center gap-2">
+                   <span className="font-bold" style={{ color: rosters[Team.RED].primaryColor }}>P2 {rosters[Team.RED].name}</span>
+                   <div className="flex gap-1">
+                      <span className="bg-gray-700 text-white px-2 py-1 rounded border border-gray-600 shadow-sm font-mono text-xs">←↑↓→ / IJKL</span>
+                      <span className="bg-gray-700 text-white px-2 py-1 rounded border border-gray-600 shadow-sm font-mono text-xs">ENTER</span>
+                   </div>
+                 </div>
+               </div>
+               ) : (
                <div className="grid grid-cols-2 gap-4 mb-8 text-sm text-gray-400 bg-black/40 p-6 rounded-2xl border border-gray-700/50 backdrop-blur w-full max-w-md">
                  <div className="flex flex-col items-center gap-2">
                    <span className="font-bold text-white">이동 (Move)</span>
@@ -289,9 +618,28 @@ const App: React.FC = () => {
                    <span className="bg-gray-700 text-white px-3 py-1 rounded border border-gray-600 shadow-sm font-mono text-xs">SPACE BAR</span>
                  </div>
                </div>
+               )}
+
+               {/* Match Rules */}
+               <div className="flex items-center gap-2 mb-3 text-xs text-gray-400">
+                 <span className="font-bold">경기 규칙</span>
+                 <MatchRulesForm rules={rules} onChange={handleRulesChange} />
+               </div>
+
+               {/* Match Seed: same seed + same inputs = same match */}
+               <label className="flex items-center gap-2 mb-6 text-xs text-gray-400">
+                 <span className="font-bold">시드 (Seed)</span>
+                 <input
+                   type="text"
+                   value={seedInput}
+                   onChange={e => setSeedInput(e.target.value)}
+                   placeholder="비워두면 무작위"
+                   className="w-40 bg-gray-800 text-white font-mono px-2 py-1 rounded border border-gray-600 focus:border-emerald-400 outline-none"
+                 />
+               </label>
 
                <button 
-                 onClick={handleStartGame}
+                 onClick={() => handleStartGame()}
                  className="group relative px-10 py-4 bg-gradient-to-r from-blue-600 to-emerald-600 hover:from-blue-500 hover:to-emerald-500 text-white font-black text-xl md:text-2xl rounded-2xl shadow-xl transition-all hover:scale-105 hover:shadow-2xl flex items-center gap-3 overflow-hidden"
                >
                  <div className="absolute inset-0 bg-white/20 translate-y-full group-hover:translate-y-0 transition-transform duration-300"></div>
@@ -299,6 +647,36 @@ const App: React.FC = () => {
                  <span className="relative z-10">KICK OFF</span>
                </button>
                
+               <button
+                 onClick={() => setShowTactics(true)}
+                 className="mt-4 flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+               >
+                 <LayoutGrid size={14} /> 포메이션 · 전술 ({formationName(teamSetups[Team.BLUE].formation)} vs {formationName(teamSetups[Team.RED].formation)})
+               </button>
+               <button
+                 onClick={() => setShowTournament(true)}
+                 className="mt-4 flex items-center gap-1 text-sm font-bold text-yellow-400 hover:text-yellow-300"
+               >
+                 <Trophy size={16} /> 대회 모드 {tournament && `(${tournament.name} 진행 중)`}
+               </button>
+               <button
+                 onClick={() => setShowRosters(true)}
+                 className="mt-2 flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+               >
+                 <Shirt size={14} /> 팀 · 선수 명단 ({rosters[Team.BLUE].name} vs {rosters[Team.RED].name})
+               </button>
+               <button
+                 onClick={() => setShowControllers(true)}
+                 className="mt-2 flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+               >
+                 <Gamepad2 size={14} /> 컨트롤러 설정
+               </button>
+               <label className="mt-2 flex items-center gap-1 text-xs text-gray-400 hover:text-white cursor-pointer">
+                 <Upload size={14} /> 리플레이 불러오기 (JSON)
+                 <input type="file" accept="application/json,.json" onChange={handleReplayImport} className="hidden" />
+               </label>
+               {replayError && <div className="mt-1 text-xs text-red-400">{replayError}</div>}
+
                <div className="mt-6 text-xs text-gray-500 font-mono">
                   Powered by Google Gemini 2.5 Flash
                </div>
@@ -331,24 +709,156 @@ const App: React.FC = () => {
       {/* Game Over Overlay */}
       {gameOver && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-           <div className="bg-gray-800 p-8 rounded-2xl border-2 border-gray-600 text-center max-w-md w-full shadow-2xl transform transition-all scale-100 animate-in fade-in zoom-in duration-300">
+           <div className="bg-gray-800 p-8 rounded-2xl border-2 border-gray-600 text-center max-w-xl w-full max-h-full overflow-y-auto shadow-2xl transform transition-all scale-100 animate-in fade-in zoom-in duration-300">
               <h2 className="text-3xl md:text-4xl font-black text-white mb-2">대회 종료</h2>
               <div className="text-xl font-mono mb-6 text-gray-300">
-                <span className="text-blue-400">{score.BLUE}</span> - <span className="text-red-400">{score.RED}</span>
+                <span style={{ color: matchRosters[Team.BLUE].primaryColor }}>{matchRosters[Team.BLUE].shortCode} {score.BLUE}</span> - <span style={{ color: matchRosters[Team.RED].primaryColor }}>{score.RED} {matchRosters[Team.RED].shortCode}</span>
+                {penalties && <div className="text-sm text-yellow-400 mt-1">승부차기 {penalties.BLUE} - {penalties.RED}</div>}
               </div>
-              <p className="text-gray-400 mb-8 italic">
-                {score.BLUE > score.RED ? "블루팀의 승리입니다!" : score.RED > score.BLUE ? "아쉬운 패배입니다..." : "무승부로 끝났습니다!"}
+              <p className="text-gray-400 mb-4 italic">
+                {penalties && score.BLUE === score.RED ? `승부차기 끝에 ${matchRosters[penalties.BLUE > penalties.RED ? Team.BLUE : Team.RED].name}의 승리입니다!` : score.BLUE > score.RED ? `${matchRosters[Team.BLUE].name}의 승리입니다!` : score.RED > score.BLUE ? (matchMode === GameMode.VERSUS ? `${matchRosters[Team.RED].name}의 승리입니다!` : "아쉬운 패배입니다...") : "무승부로 끝났습니다!"}
               </p>
-              <button 
-                onClick={handleStartGame}
-                className="w-full py-3 bg-white text-gray-900 font-black text-lg rounded-xl hover:bg-gray-200 transition-colors flex items-center justify-center gap-2"
-              >
-                <RotateCcw size={20} /> 새 대회 시작
-              </button>
+              <div className="text-xs text-gray-500 font-mono mb-6 select-text">
+                시드: <span className="text-gray-300">{seed}</span>
+                {matchMode === GameMode.SINGLE && <> · AI: <span className="text-gray-300">{AI_PROFILES[matchDifficulty].label}</span></>}
+              </div>
+              {matchStats && <StatsPanel stats={matchStats} rosters={matchRosters} rules={matchRules} />}
+              {tournamentMatch ? (
+                <>
+                  <button 
+                    onClick={() => setShowTournament(true)}
+                    className="w-full py-3 bg-yellow-400 text-gray-900 font-black text-lg rounded-xl hover:bg-yellow-300 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Trophy size={20} /> 대회로 돌아가기
+                  </button>
+                  <button 
+                    onClick={() => handleStartGame()}
+                    className="w-full mt-2 py-2 bg-gray-700 text-gray-200 font-bold text-sm rounded-xl hover:bg-gray-600 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <RotateCcw size={16} /> 대회와 별개로 새 경기
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button 
+                    onClick={() => handleStartGame()}
+                    className="w-full py-3 bg-white text-gray-900 font-black text-lg rounded-xl hover:bg-gray-200 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <RotateCcw size={20} /> 새 대회 시작
+                  </button>
+                  <button 
+                    onClick={() => handleStartGame(seed)}
+                    className="w-full mt-2 py-2 bg-gray-700 text-gray-200 font-bold text-sm rounded-xl hover:bg-gray-600 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <RotateCcw size={16} /> 같은 시드로 다시 하기
+                  </button>
+                </>
+              )}
+              {replay && (
+                <div className="flex gap-2 mt-2">
+                  <button 
+                    onClick={() => setShowReplay(true)}
+                    className="flex-1 py-2 bg-emerald-700 text-white font-bold text-sm rounded-xl hover:bg-emerald-600 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Film size={16} /> 리플레이 보기
+                  </button>
+                  <button 
+                    onClick={() => downloadReplay(replay)}
+                    className="flex-1 py-2 bg-gray-700 text-gray-200 font-bold text-sm rounded-xl hover:bg-gray-600 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Download size={16} /> 리플레이 저장
+                  </button>
+                </div>
+              )}
+              {highlights.length > 0 && (
+                <div className="mt-2 bg-gray-900/50 rounded-xl p-3 text-left">
+                  <div className="text-xs font-bold text-gray-400 mb-1 flex items-center gap-1"><Star size={12} /> 저장한 하이라이트</div>
+                  <ul className="space-y-1">
+                    {highlights.map((highlight, i) => (
+                      <li key={i}>
+                        <button
+                          onClick={() => setViewingHighlight(i)}
+                          className="w-full flex items-center gap-2 px-2 py-1 rounded-lg text-xs text-gray-200 hover:bg-gray-700"
+                        >
+                          <Play size={12} className="text-emerald-400 shrink-0" fill="currentColor" />
+                          <span className="font-bold" style={{ color: matchRosters[highlight.team].primaryColor }}>{matchRosters[highlight.team].shortCode}</span>
+                          <span className="truncate">{highlightLabel(highlight, matchRules)}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {matchStats && (
+                <button 
+                  onClick={() => setShowAnalysis(true)}
+                  className="w-full mt-2 py-2 bg-gray-700 text-gray-200 font-bold text-sm rounded-xl hover:bg-gray-600 transition-colors flex items-center justify-center gap-2"
+                >
+                  <MapIcon size={16} /> 히트맵 · 슈팅 맵
+                </button>
+              )}
            </div>
         </div>
       )}
 
+      {/* Heatmaps and Shot Map (post-match) */}
+      {showAnalysis && matchStats && (
+        <MatchAnalysis stats={matchStats} rosters={matchRosters} seed={seed} onClose={() => setShowAnalysis(false)} />
+      )}
+
+      {/* Saved goal highlights (post-match) */}
+      {viewingHighlight !== null && (
+        <HighlightViewer highlights={highlights} start={viewingHighlight} rules={matchRules} onClose={() => setViewingHighlight(null)} />
+      )}
+
+      {/* Replay Viewer */}
+      {showReplay && replay && (
+        <ReplayViewer replay={replay} onClose={() => setShowReplay(false)} />
+      )}
+
+      {/* Controller Assignment */}
+      {showControllers && (
+        <ControllerSetup
+          assignments={padAssignments}
+          mode={mode}
+          onChange={setPadAssignments}
+          onClose={() => setShowControllers(false)}
+        />
+      )}
+
+      {/* Formations and Tactics (pre-match) */}
+      {showTactics && (
+        <TacticsEditor
+          setups={teamSetups}
+          onChange={handleTeamSetupsChange}
+          onClose={() => setShowTactics(false)}
+        />
+      )}
+
+      {/* Team names, kits and squads (pre-match) */}
+      {showRosters && (
+        <RosterEditor
+          rosters={rosters}
+          setups={teamSetups}
+          onChange={handleRostersChange}
+          onClose={() => setShowRosters(false)}
+        />
+      )}
+
+      {/* Tournament: setup, fixtures and tables */}
+      {showTournament && (
+        <TournamentPanel
+          tournament={tournament}
+          onChange={handleTournamentChange}
+          onPlay={handlePlayFixture}
+          simulating={simulating}
+          simulationError={simulationError}
+          onSimulate={handleSimulateFixtures}
+          onCancelSimulation={cancelSimulation}
+          onClose={() => setShowTournament(false)}
+        />
+      )}
+
       {/* Help Modal (Toggled by F1) */}
       {showHelp && (
         <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={() => setShowHelp(false)}>
@@ -366,10 +876,21 @@ const App: React.FC = () => {
               
               <ul className="text-base text-gray-300 space-y-3 list-disc list-inside">
                 <li><span className="text-blue-400 font-bold">블루 팀</span>을 조종합니다.</li>
-                <li>공과 가장 가까운 선수가 <span className="text-yellow-400">자동으로 선택</span>됩니다 (노란 링).</li>
+                <li>공과 가장 가까운 선수가 <span className="text-yellow-400">자동으로 선택</span>됩니다 (노란 링). 교체 키로 직접 바꿀 수도 있습니다.</li>
                 <li><span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">WASD</span> 또는 <span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">방향키</span>로 이동하세요.</li>
-                <li><span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">Space</span> 또는 <span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">K</span>로 슛/패스하세요.</li>
-                <li className="pt-2 border-t border-gray-700/50 mt-2">총 4쿼터 (각 1분)로 진행됩니다.</li>
+                <li><span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">Space</span> 또는 <span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">K</span>를 누르고 있으면 슛 파워가 모이고, 떼면 슛합니다 (선수 위 게이지).</li>
+                <li><span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">E</span>/<span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">J</span>: 방향키 쪽 동료에게 패스 · <span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">Q</span>/<span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">L</span>: 선수 교체</li>
+                <li><span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">R</span>/<span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">I</span>: 방향키 쪽으로 슬라이딩 태클. 공을 먼저 건드리지 못하거나 뒤에서 들어가면 <span className="text-yellow-400">반칙</span>이 선언되어 상대에게 프리킥, 페널티 박스 안이면 페널티킥이 주어집니다.</li>
+                <li><span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">왼쪽 Shift</span>/<span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">;</span>를 누르고 있으면 스프린트합니다. 스프린트하면 <span className="text-yellow-400">스태미나</span>(화면 아래 게이지)가 줄고, 바닥나면 느려집니다. 쉬면 조금씩, 쿼터·하프타임 사이에는 많이 회복됩니다. (2P: P1 <span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">왼쪽 Shift</span>, P2 <span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">오른쪽 Ctrl</span>/<span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">,</span>)</li>
+                <li>선수마다 속도·가속·슛 파워·정확도·태클·골키핑 능력치가 달라서, 공격수는 빠르고 수비수는 태클이 깔끔합니다. 팀 · 선수 명단에서 선수별로 조정할 수 있습니다.</li>
+                <li>선수끼리는 몸으로 부딪힙니다. 공을 가진 선수는 몸으로 공을 지키므로 뒤에서는 뺏을 수 없고, 전력으로 달려들면 상대를 어깨로 밀어낼 수 있습니다.</li>
+                <li><span className="text-red-400 font-bold">1P</span>에서는 시작 화면에서 레드 팀 AI의 난이도(쉬움·보통·어려움·전설)를 고를 수 있습니다.</li>
+                <li><span className="text-red-400 font-bold">2P 대전</span>에서는 P1이 <span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">WASD</span>+<span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">Space</span>, P2가 <span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">방향키/IJKL</span>+<span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">Enter</span>로 레드 팀을 조종합니다 (하늘색 링). 패스/교체/태클은 P1 <span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">E</span>/<span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">Q</span>/<span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">R</span>, P2 <span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">오른쪽 Shift</span>/<span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">/</span>/<span className="text-white font-mono bg-gray-700 px-2 py-0.5 rounded border border-gray-600">.</span>입니다.</li>
+                <li>시작 화면의 <span className="text-emerald-400">포메이션 · 전술</span>에서 두 팀의 포메이션을 고르거나 선수를 끌어 배치하고, 수비 라인·압박 강도·폭을 정할 수 있습니다. AI 선수들도 이 전술을 따릅니다.</li>
+                <li><span className="text-emerald-400">팀 · 선수 명단</span>에서 팀 이름·약칭·유니폼 색과 선수 이름·등번호를 정할 수 있습니다. 전광판과 해설, 음성 중계에 그대로 쓰입니다.</li>
+                <li><span className="text-yellow-400 font-bold">대회 모드</span>에서 4~16팀으로 토너먼트나 조별리그를 열 수 있습니다. 팀마다 사람/AI를 정하고, AI끼리의 경기는 바로 시뮬레이션할 수 있습니다. 진행 상황은 저장되어 앱을 다시 켜도 이어집니다.</li>
+                <li><span className="text-emerald-400 font-bold">USB 게임패드</span>도 지원합니다. 상단의 <span className="text-emerald-400">컨트롤러</span> 버튼에서 팀을 지정하세요.</li>
+                <li className="pt-2 border-t border-gray-700/50 mt-2">기본은 총 4쿼터 (각 1분)이며, 시작 화면의 경기 규칙에서 경기 방식·시간과 동점일 때의 승부 방식(골든골 연장전, 승부차기)을 바꿀 수 있습니다. 승부차기에서는 키커만 조작하고 골키퍼는 자동입니다. 경기 시간은 공이 살아 있을 때만 흐르고, 킥오프·세트피스 전과 골 세리머니 중에는 멈춥니다. 골을 먹은 팀이 킥오프하며, 선수들이 제자리로 걸어 돌아가는 동안 상대 팀은 첫 터치 전까지 센터 서클 밖에 있어야 합니다. 골이 들어가면 직전 8초가 슬로 모션으로 다시 나오며, 건너뛰거나 하이라이트로 저장해 경기 후에 다시 볼 수 있습니다.</li>
                 <li>오프라인 상태에서도 기본 AI 해설이 제공됩니다.</li>
                 <li>네트워크 연결 시 Gemini AI의 생생한 해설을 들을 수 있습니다.</li>
               </ul>
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { GameMode, PadAssignments, Team } from '../types';
+import { ConnectedPad, isAnyButtonPressed, listGamepads } from '../services/gamepadService';
+import { Gamepad2, X } from 'lucide-react';
+
+interface ControllerSetupProps {
+  assignments: PadAssignments;
+  mode: GameMode;
+  onChange: (assignments: PadAssignments) => void;
+  onClose: () => void;
+}
+
+const OPTIONS: { team: Team | null; label: string; className: string }[] = [
+  { team: Team.BLUE, label: '블루', className: 'bg-blue-600 border-blue-400' },
+  { team: Team.RED, label: '레드', className: 'bg-red-600 border-red-400' },
+  { team: null, label: '사용 안 함', className: 'bg-gray-600 border-gray-400' },
+];
+
+const ControllerSetup: React.FC<ControllerSetupProps> = ({ assignments, mode, onChange, onClose }) => {
+  const [pads, setPads] = useState<ConnectedPad[]>([]);
+  const [active, setActive] = useState<number[]>([]); // Pads with a button held, to identify them
+
+  // The Gamepad API has no change events for buttons, so poll while the screen is open
+  useEffect(() => {
+    const poll = () => {
+      const connected = listGamepads();
+      setPads(connected);
+      setActive(connected.filter(p => isAnyButtonPressed(p.index)).map(p => p.index));
+    };
+    poll();
+    const interval = setInterval(poll, 100);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 p-6 rounded-xl border border-emerald-500/50 w-full max-w-lg shadow-2xl relative" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <X size={24} />
+        </button>
+
+        <h3 className="font-bold text-2xl text-emerald-400 mb-4 flex items-center gap-2 border-b border-gray-700 pb-2">
+          <Gamepad2 size={24} /> 컨트롤러 설정
+        </h3>
+
+        {pads.length === 0 ? (
+          <p className="text-gray-400 text-sm text-center py-6">
+            연결된 컨트롤러가 없습니다.<br />
+            <span className="text-xs text-gray-500">USB 컨트롤러를 연결한 뒤 아무 버튼이나 눌러주세요.</span>
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {pads.map(pad => (
+              <li key={pad.index} className={`p-3 rounded-lg border ${active.includes(pad.index) ? 'border-yellow-400 bg-yellow-900/20' : 'border-gray-700 bg-gray-900/50'}`}>
+                <div className="text-xs text-gray-400 font-mono truncate mb-2">
+                  #{pad.index + 1} {pad.id}
+                </div>
+                <div className="flex gap-2">
+                  {OPTIONS.map(option => (
+                    <button
+                      key={option.label}
+                      onClick={() => onChange({ ...assignments, [pad.index]: option.team })}
+                      className={`flex-1 py-1 rounded text-sm font-bold border ${(assignments[pad.index] ?? null) === option.team ? `${option.className} text-white` : 'bg-gray-700 border-gray-600 text-gray-400 hover:text-white'}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <ul className="mt-4 text-xs text-gray-400 space-y-1 list-disc list-inside">
+          <li>왼쪽 스틱 / 십자키: 이동</li>
+          <li>A (✕): 슛 · B (○): 패스 · X (□) / LB: 선수 교체 · Y (△) / RB: 태클</li>
+          <li>RT / LT (R2 / L2): 누르고 있는 동안 스프린트</li>
+          {mode === GameMode.SINGLE && <li className="text-yellow-400">1P 모드에서는 레드팀을 AI가 조종하므로 레드로 지정된 컨트롤러는 쓰이지 않습니다.</li>}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ControllerSetup;
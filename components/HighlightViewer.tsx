@@ -0,0 +1,155 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { CONFIG, TICK_RATE, MAX_FRAME_TIME } from '../constants';
+import { Highlight, MatchRules, Team } from '../types';
+import { highlightStateAt, highlightTicks, REPLAY_HOLD, REPLAY_SPEED } from '../engine/highlights';
+import { playerLabel } from '../engine/roster';
+import { periodName } from '../engine/rules';
+import { drawMatch, drawPitch, drawReplayBanner } from './pitchRenderer';
+import { ChevronLeft, ChevronRight, Pause, Play, Star, X } from 'lucide-react';
+
+interface HighlightViewerProps {
+  highlights: Highlight[];
+  start: number; // Index of the clip to show first
+  rules: MatchRules;
+  onClose: () => void;
+}
+
+const SPEEDS = [REPLAY_SPEED, 1];
+
+/** "전반 · 9번 김철수 (1-0)", naming own goals as such. */
+export const highlightLabel = (highlight: Highlight, rules: MatchRules): string => {
+  const { base, score } = highlight;
+  const scorer = base.players.find(p => p.id === highlight.scorerId);
+  let who = '득점자 없음';
+  if (scorer) {
+    who = playerLabel(base.rosters[scorer.team], scorer);
+    if (scorer.team !== highlight.team) who += ` (${base.rosters[scorer.team].shortCode} 자책골)`;
+  }
+  return `${periodName(rules, highlight.period)} · ${who} (${score[Team.BLUE]}-${score[Team.RED]})`;
+};
+
+const HighlightViewer: React.FC<HighlightViewerProps> = ({ highlights, start, rules, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const animationFrameRef = useRef<number>(0);
+  const lastFrameTimeRef = useRef<number | null>(null);
+  const tickRef = useRef(0); // Fractional, past the clip's end while the last frame is held
+
+  const [index, setIndex] = useState(start);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(REPLAY_SPEED);
+  const highlight = highlights[index];
+
+  const show = (i: number) => {
+    tickRef.current = 0;
+    setIndex(i);
+    setIsPlaying(true);
+  };
+
+  // ESC closes, Space toggles playback
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.code === 'Space') {
+        e.preventDefault();
+        setIsPlaying(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Plays the clip on a loop, holding the goal for a moment before starting over
+  useEffect(() => {
+    const render = (now: number) => {
+      const last = lastFrameTimeRef.current;
+      lastFrameTimeRef.current = now;
+      const end = highlightTicks(highlight);
+
+      if (isPlaying && last !== null) {
+        tickRef.current += Math.min((now - last) / 1000, MAX_FRAME_TIME) * TICK_RATE * speed;
+        if (tickRef.current >= end + REPLAY_HOLD * TICK_RATE * speed) tickRef.current = 0;
+      }
+
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) {
+        drawPitch(ctx, CONFIG);
+        drawMatch(ctx, highlightStateAt(highlight, tickRef.current), []);
+        drawReplayBanner(ctx, tickRef.current / end);
+      }
+
+      animationFrameRef.current = requestAnimationFrame(render);
+    };
+
+    lastFrameTimeRef.current = null;
+    animationFrameRef.current = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(animationFrameRef.current);
+  }, [highlight, isPlaying, speed]);
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 p-4 rounded-2xl border-2 border-gray-600 w-full max-w-4xl shadow-2xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-bold text-xl text-emerald-400 flex items-center gap-2">
+            <Star size={20} /> 하이라이트
+            <span className="text-sm font-normal" style={{ color: highlight.base.rosters[highlight.team].primaryColor }}>
+              {highlight.base.rosters[highlight.team].name} 득점 · {highlightLabel(highlight, rules)}
+            </span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="relative rounded-lg overflow-hidden border-4 border-gray-900">
+          <canvas
+            ref={canvasRef}
+            width={CONFIG.pitchWidth}
+            height={CONFIG.pitchHeight}
+            className="block w-full h-auto"
+          />
+        </div>
+
+        <div className="flex items-center gap-3 mt-3">
+          <button
+            onClick={() => setIsPlaying(prev => !prev)}
+            className="flex items-center justify-center w-10 h-10 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg shrink-0"
+          >
+            {isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" />}
+          </button>
+
+          <div className="flex gap-1">
+            {SPEEDS.map(s => (
+              <button
+                key={s}
+                onClick={() => setSpeed(s)}
+                className={`px-2 py-1 rounded text-xs font-mono font-bold ${speed === s ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {s}x
+              </button>
+            ))}
+          </div>
+
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={() => show(index - 1)}
+              disabled={index === 0}
+              className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-200 rounded-lg"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <span className="text-xs font-mono text-gray-400">{index + 1} / {highlights.length}</span>
+            <button
+              onClick={() => show(index + 1)}
+              disabled={index === highlights.length - 1}
+              className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-200 rounded-lg"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HighlightViewer;
@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CONFIG } from '../constants';
+import { MatchStats, Rosters, Team } from '../types';
+import { sumGrids } from '../engine/stats';
+import { drawHeatmap, drawShotMap } from './analysisRenderer';
+import { Download, Map as MapIcon, X } from 'lucide-react';
+
+interface MatchAnalysisProps {
+  stats: MatchStats;
+  rosters: Rosters;
+  seed: number; // For the exported file names
+  onClose: () => void;
+}
+
+type View = 'heatmap' | 'shots';
+type Subject = Team | 'ball' | number; // A team, the ball, or one player by id
+
+const TEAMS = [Team.BLUE, Team.RED];
+
+const MatchAnalysis: React.FC<MatchAnalysisProps> = ({ stats, rosters, seed, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [view, setView] = useState<View>('heatmap');
+  const [subject, setSubject] = useState<Subject>(Team.BLUE);
+  const [shotTeam, setShotTeam] = useState<Team | null>(null); // null: both teams
+
+  const playerLabel = (playerId: number) => {
+    const p = stats.players.find(q => q.playerId === playerId)!;
+    const name = rosters[p.team].players[p.slot]?.name;
+    return `${rosters[p.team].shortCode} ${p.jerseyNum}번${name ? ` ${name}` : ''}`;
+  };
+
+  const heatTitle = (s: Subject) =>
+    s === 'ball' ? '공 히트맵' : typeof s === 'number' ? `${playerLabel(s)} 히트맵` : `${rosters[s].name} 히트맵`;
+  const shotTitle = shotTeam ? `${rosters[shotTeam].name} 슈팅 맵` : '슈팅 맵';
+
+  // ESC closes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    if (view === 'shots') {
+      drawShotMap(ctx, stats.shots.filter(s => !shotTeam || s.team === shotTeam), rosters, shotTitle, CONFIG);
+      return;
+    }
+    const grid = subject === 'ball' ? stats.heat.ball
+      : typeof subject === 'number' ? stats.heat.players[subject]
+      : sumGrids(stats.players.filter(p => p.team === subject).map(p => stats.heat.players[p.playerId]));
+    drawHeatmap(ctx, grid, heatTitle(subject), CONFIG);
+  }, [view, subject, shotTeam, stats, rosters]);
+
+  const exportPng = () => {
+    const name = view === 'shots' ? `shots-${shotTeam ?? 'all'}` : `heatmap-${typeof subject === 'number' ? `player${subject}` : subject}`;
+    canvasRef.current?.toBlob(blob => {
+      if (!blob) return;
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${name}-${seed}.png`;
+      a.click();
+      URL.revokeObjectURL(url);
+    }, 'image/png');
+  };
+
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs font-bold border ${active ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 p-4 rounded-2xl border-2 border-gray-600 w-full max-w-4xl max-h-full overflow-y-auto shadow-2xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-bold text-xl text-emerald-400 flex items-center gap-2">
+            <MapIcon size={20} /> 히트맵 · 슈팅 맵
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-2">
+          <button onClick={() => setView('heatmap')} className={chip(view === 'heatmap')}>히트맵</button>
+          <button onClick={() => setView('shots')} className={chip(view === 'shots')}>슈팅 맵</button>
+          <button
+            onClick={exportPng}
+            className="ml-auto flex items-center gap-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-xs font-bold"
+          >
+            <Download size={14} /> PNG 저장
+          </button>
+        </div>
+
+        {/* What to show */}
+        {view === 'heatmap' ? (
+          <div className="space-y-1 mb-3">
+            <div className="flex flex-wrap gap-1">
+              {TEAMS.map(team => (
+                <button key={team} onClick={() => setSubject(team)} className={chip(subject === team)}>{rosters[team].name} 전체</button>
+              ))}
+              <button onClick={() => setSubject('ball')} className={chip(subject === 'ball')}>공</button>
+            </div>
+            {TEAMS.map(team => (
+              <div key={team} className="flex flex-wrap gap-1 items-center">
+                <span className="text-xs font-bold w-10" style={{ color: rosters[team].primaryColor }}>{rosters[team].shortCode}</span>
+                {stats.players.filter(p => p.team === team).map(p => (
+                  <button key={p.playerId} onClick={() => setSubject(p.playerId)} className={chip(subject === p.playerId)} title={playerLabel(p.playerId)}>
+                    {p.jerseyNum}번{rosters[team].players[p.slot]?.name ? ` ${rosters[team].players[p.slot].name}` : ''}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-1 mb-3">
+            <button onClick={() => setShotTeam(null)} className={chip(shotTeam === null)}>양 팀</button>
+            {TEAMS.map(team => (
+              <button key={team} onClick={() => setShotTeam(team)} className={chip(shotTeam === team)}>{rosters[team].name}</button>
+            ))}
+          </div>
+        )}
+
+        <div className="relative rounded-lg overflow-hidden border-4 border-gray-900">
+          <canvas
+            ref={canvasRef}
+            width={CONFIG.pitchWidth}
+            height={CONFIG.pitchHeight}
+            className="block w-full h-auto"
+          />
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          {view === 'heatmap'
+            ? '1초에 10번씩 기록한 위치입니다. 붉을수록 오래 머문 곳입니다.'
+            : '공을 찬 위치입니다. 노란 테두리는 골, 흰 테두리는 선방, 빈 원은 빗나가거나 막힌 슈팅입니다.'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default MatchAnalysis;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { MatchRules, TieBreak } from '../types';
+import { PERIOD_LENGTH_OPTIONS, PERIOD_OPTIONS, TIE_BREAK_LABELS } from '../engine/rules';
+
+interface MatchRulesFormProps {
+  rules: MatchRules;
+  decisive?: boolean; // Leave out "draw stands", for ties that need a winner
+  onChange: (rules: MatchRules) => void;
+}
+
+const PERIOD_LABELS: { [periods: number]: string } = { 1: '단판', 2: '전·후반', 4: '4쿼터' };
+
+const SELECT_CLASS = 'bg-gray-900 text-white px-2 py-1 rounded border border-gray-600 text-sm';
+
+const formatLength = (seconds: number) => seconds % 60 === 0 ? `${seconds / 60}분` : `${seconds}초`;
+
+/** Number of periods, their length and the tie-break, as three dropdowns. */
+const MatchRulesForm: React.FC<MatchRulesFormProps> = ({ rules, decisive = false, onChange }) => {
+  const tieBreaks = Object.values(TieBreak).filter(t => !decisive || t !== TieBreak.NONE);
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-300">
+      <select value={rules.periods} onChange={e => onChange({ ...rules, periods: Number(e.target.value) })} className={SELECT_CLASS} title="경기 방식">
+        {PERIOD_OPTIONS.map(n => <option key={n} value={n}>{PERIOD_LABELS[n]}</option>)}
+      </select>
+      <select value={rules.periodLength} onChange={e => onChange({ ...rules, periodLength: Number(e.target.value) })} className={SELECT_CLASS} title={rules.periods === 1 ? '경기 시간' : '한 피리어드 시간'}>
+        {PERIOD_LENGTH_OPTIONS.map(s => <option key={s} value={s}>{rules.periods === 1 ? '' : '각 '}{formatLength(s)}</option>)}
+      </select>
+      <label className="flex items-center gap-1">
+        <span className="font-bold text-xs">동점이면</span>
+        <select value={rules.tieBreak} onChange={e => onChange({ ...rules, tieBreak: e.target.value as TieBreak })} className={SELECT_CLASS}>
+          {tieBreaks.map(t => <option key={t} value={t}>{TIE_BREAK_LABELS[t]}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default MatchRulesForm;
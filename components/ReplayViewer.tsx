@@ -0,0 +1,180 @@
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { AI_PROFILES, TICK_RATE, MAX_FRAME_TIME } from '../constants';
+import { MatchReplay, Team } from '../types';
+import { createReplayTimeline, serializeReplay } from '../engine/replay';
+import { interpolateState } from '../engine/match';
+import { formationName } from '../engine/formation';
+import { periodName } from '../engine/rules';
+import { drawMatch, drawPitch } from './pitchRenderer';
+import { Play, Pause, Download, X, Film } from 'lucide-react';
+
+interface ReplayViewerProps {
+  replay: MatchReplay;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const formatTicks = (ticks: number) => {
+  const seconds = Math.floor(ticks / TICK_RATE);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// Triggers a browser (or Electron) download of the replay as a JSON file
+export const downloadReplay = (replay: MatchReplay) => {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `replay-${replay.seed}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const animationFrameRef = useRef<number>(0);
+  const lastFrameTimeRef = useRef<number | null>(null);
+
+  // Re-simulates the whole match once up front; scrubbing then only steps from the nearest keyframe
+  const timeline = useMemo(() => createReplayTimeline(replay), [replay]);
+  // Teams that had a human on the controls at any point get the active-player ring
+  const controlledTeams = useMemo(
+    () => [Team.BLUE, Team.RED].filter(team => replay.periods.some(period => period.some(inputs => inputs[team]))),
+    [replay]
+  );
+
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [tick, setTick] = useState(0); // Fractional, so slow motion can interpolate between ticks
+  const tickRef = useRef(0);
+
+  const seek = (value: number) => {
+    tickRef.current = Math.max(0, Math.min(timeline.totalTicks, value));
+    setTick(tickRef.current);
+  };
+
+  // ESC closes the viewer, Space toggles playback
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.code === 'Space') {
+        e.preventDefault();
+        setIsPlaying(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // --- Playback + Rendering Loop ---
+  useEffect(() => {
+    const render = (now: number) => {
+      const last = lastFrameTimeRef.current;
+      lastFrameTimeRef.current = now;
+
+      if (isPlaying && last !== null) {
+        const next = tickRef.current + Math.min((now - last) / 1000, MAX_FRAME_TIME) * TICK_RATE * speed;
+        seek(next);
+        if (next >= timeline.totalTicks) setIsPlaying(false);
+      }
+
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) {
+        const whole = Math.floor(tickRef.current);
+        const prev = timeline.stateAt(whole);
+        const curr = timeline.stateAt(Math.min(whole + 1, timeline.totalTicks));
+        drawPitch(ctx, replay.config);
+        drawMatch(ctx, interpolateState(prev, curr, tickRef.current - whole), controlledTeams);
+      }
+
+      animationFrameRef.current = requestAnimationFrame(render);
+    };
+
+    lastFrameTimeRef.current = null;
+    animationFrameRef.current = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(animationFrameRef.current);
+  }, [isPlaying, speed, timeline, replay, controlledTeams]);
+
+  const togglePlay = () => {
+    if (!isPlaying && tickRef.current >= timeline.totalTicks) seek(0);
+    setIsPlaying(prev => !prev);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 p-4 rounded-2xl border-2 border-gray-600 w-full max-w-4xl shadow-2xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-bold text-xl text-emerald-400 flex items-center gap-2">
+            <Film size={20} /> 리플레이
+            <span className="text-xs text-gray-500 font-mono font-normal">시드 {replay.seed} · AI {AI_PROFILES[replay.difficulty].label} · {replay.rosters[Team.BLUE].name} ({formationName(replay.teams[Team.BLUE].formation)}) vs {replay.rosters[Team.RED].name} ({formationName(replay.teams[Team.RED].formation)})</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="relative rounded-lg overflow-hidden border-4 border-gray-900">
+          <canvas
+            ref={canvasRef}
+            width={replay.config.pitchWidth}
+            height={replay.config.pitchHeight}
+            className="block w-full h-auto"
+          />
+        </div>
+
+        {/* Transport Controls */}
+        <div className="flex items-center gap-3 mt-3">
+          <button
+            onClick={togglePlay}
+            className="flex items-center justify-center w-10 h-10 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg shrink-0"
+          >
+            {isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" />}
+          </button>
+
+          <span className="text-xs font-mono text-yellow-400 w-10 text-right">{formatTicks(tick)}</span>
+          <input
+            type="range"
+            min={0}
+            max={timeline.totalTicks}
+            step={1}
+            value={tick}
+            onChange={e => seek(Number(e.target.value))}
+            className="flex-1 accent-emerald-500"
+          />
+          <span className="text-xs font-mono text-gray-400 w-10">{formatTicks(timeline.totalTicks)}</span>
+
+          <div className="flex gap-1">
+            {SPEEDS.map(s => (
+              <button
+                key={s}
+                onClick={() => setSpeed(s)}
+                className={`px-2 py-1 rounded text-xs font-mono font-bold ${speed === s ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {s}x
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={() => downloadReplay(replay)}
+            className="flex items-center gap-1 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-xs font-bold shrink-0"
+          >
+            <Download size={14} /> JSON
+          </button>
+        </div>
+
+        {/* Period markers */}
+        <div className="flex gap-2 mt-2 text-xs text-gray-500">
+          {timeline.periodStarts.map((start, i) => (
+            <button key={i} onClick={() => seek(start)} className="hover:text-white font-mono">
+              {periodName(replay.rules, i + 1)} ▸ {formatTicks(start)}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
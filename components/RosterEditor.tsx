@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { PlayerAttributes, PlayerRole, RosterPlayer, Rosters, Team, TeamRoster, TeamSetups } from '../types';
+import { DEFAULT_ROSTERS, ROLE_ATTRIBUTES } from '../constants';
+import { ATTRIBUTE_LABELS, duplicateNumbers, PLAYER_NAME_MAX, SHORT_CODE_MAX, TEAM_NAME_MAX } from '../engine/roster';
+import { Shirt, SlidersHorizontal, X } from 'lucide-react';
+
+interface RosterEditorProps {
+  rosters: Rosters;
+  setups: TeamSetups; // For the role shown next to each slot
+  onChange: (rosters: Rosters) => void;
+  onClose: () => void;
+}
+
+const TEAMS: { team: Team; side: string }[] = [
+  { team: Team.BLUE, side: '왼쪽 (P1)' },
+  { team: Team.RED, side: '오른쪽 (AI / P2)' },
+];
+
+const ROLE_LABELS: { [key in PlayerRole]: string } = {
+  [PlayerRole.GOALKEEPER]: 'GK',
+  [PlayerRole.DEFENDER]: 'DF',
+  [PlayerRole.MIDFIELDER]: 'MF',
+  [PlayerRole.FORWARD]: 'FW',
+};
+
+const ATTRIBUTES = Object.keys(ATTRIBUTE_LABELS) as (keyof PlayerAttributes)[];
+
+const INPUT_CLASS = 'bg-gray-900 text-white px-2 py-1 rounded border border-gray-600 focus:border-emerald-400 outline-none';
+
+interface TeamRosterFormProps {
+  roster: TeamRoster;
+  roles: PlayerRole[]; // By slot, shown next to each squad member
+  onChange: (roster: TeamRoster) => void;
+}
+
+/** Name, short code, kit colours and squad for one team. Remount it (by `key`) to edit a different team. */
+export const TeamRosterForm: React.FC<TeamRosterFormProps> = ({ roster, roles, onChange }) => {
+  // Name fields being edited, so a half-cleared name doesn't have to be valid (or saved) yet
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const [draftCode, setDraftCode] = useState<string | null>(null);
+  const [ratingSlot, setRatingSlot] = useState<number | null>(null); // Whose ratings are open
+
+  const duplicates = duplicateNumbers(roster);
+
+  const update = (changes: Partial<TeamRoster>) => onChange({ ...roster, ...changes });
+
+  const updatePlayer = (slot: number, changes: Partial<RosterPlayer>) =>
+    update({ players: roster.players.map((p, i) => i === slot ? { ...p, ...changes } : p) });
+
+  const updateAttribute = (slot: number, key: keyof PlayerAttributes, value: number) =>
+    updatePlayer(slot, { attributes: { ...roster.players[slot].attributes, [key]: value } });
+
+  // Team name and short code can't be left empty; an emptied field goes back to what was saved
+  const commitText = (key: 'name' | 'shortCode', value: string | null) => {
+    if (value !== null && value.trim()) update({ [key]: value.trim() });
+  };
+
+  return (
+    <div>
+      {/* Team identity */}
+      <div className="grid grid-cols-[1fr_auto] gap-3 text-sm text-gray-300">
+        <label className="flex flex-col gap-1">
+          <span className="font-bold">팀 이름</span>
+          <input
+            type="text"
+            maxLength={TEAM_NAME_MAX}
+            value={draftName ?? roster.name}
+            onChange={e => setDraftName(e.target.value)}
+            onBlur={() => { commitText('name', draftName); setDraftName(null); }}
+            placeholder="예: 3학년 1반"
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-bold">약칭</span>
+          <input
+            type="text"
+            maxLength={SHORT_CODE_MAX}
+            value={draftCode ?? roster.shortCode}
+            onChange={e => setDraftCode(e.target.value.toUpperCase())}
+            onBlur={() => { commitText('shortCode', draftCode); setDraftCode(null); }}
+            placeholder="3-1"
+            className={`${INPUT_CLASS} w-20 font-mono text-center`}
+          />
+        </label>
+      </div>
+
+      <div className="flex gap-6 mt-3 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          <input type="color" value={roster.primaryColor} onChange={e => update({ primaryColor: e.target.value })} className="w-8 h-8 bg-transparent cursor-pointer" />
+          <span className="font-bold">유니폼</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="color" value={roster.secondaryColor} onChange={e => update({ secondaryColor: e.target.value })} className="w-8 h-8 bg-transparent cursor-pointer" />
+          <span className="font-bold">등번호</span>
+        </label>
+        {/* Preview, drawn the way the pitch draws a player */}
+        <div
+          className="w-8 h-8 rounded-full flex items-center justify-center text-xs font-black shadow ml-auto"
+          style={{ backgroundColor: roster.primaryColor, color: roster.secondaryColor }}
+        >
+          {roster.players[roster.players.length - 1].number}
+        </div>
+      </div>
+
+      {/* Squad, in formation slot order */}
+      <div className="mt-4 space-y-1">
+        {roster.players.map((p, slot) => (
+          <div key={slot}>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="w-8 text-xs font-bold text-gray-500">{ROLE_LABELS[roles[slot]]}</span>
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={p.number}
+                onChange={e => {
+                  const number = Math.round(Number(e.target.value));
+                  if (number >= 1 && number <= 99) updatePlayer(slot, { number });
+                }}
+                className={`${INPUT_CLASS} w-16 font-mono text-center ${duplicates.includes(p.number) ? 'border-yellow-400' : ''}`}
+              />
+              <input
+                type="text"
+                maxLength={PLAYER_NAME_MAX}
+                value={p.name}
+                onChange={e => updatePlayer(slot, { name: e.target.value })}
+                placeholder="이름 (비워두면 등번호로 부름)"
+                className={`${INPUT_CLASS} flex-1`}
+              />
+              <button
+                onClick={() => setRatingSlot(ratingSlot === slot ? null : slot)}
+                title="능력치"
+                className={`p-1.5 rounded border ${ratingSlot === slot ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-gray-700 border-gray-600 text-gray-400 hover:text-white'}`}
+              >
+                <SlidersHorizontal size={14} />
+              </button>
+            </div>
+            {/* Ratings, 0..1 like the engine's; they stay with the player whichever slot the formation puts them in */}
+            {ratingSlot === slot && (
+              <div className="ml-10 mt-1 mb-2 p-2 rounded bg-gray-900/60 border border-gray-700 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-300">
+                {ATTRIBUTES.map(key => (
+                  <label key={key} className="flex items-center gap-2">
+                    <span className="w-12 shrink-0">{ATTRIBUTE_LABELS[key]}</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={p.attributes[key]}
+                      onChange={e => updateAttribute(slot, key, Number(e.target.value))}
+                      className="flex-1 accent-emerald-500"
+                    />
+                    <span className="w-8 text-right font-mono">{Math.round(p.attributes[key] * 100)}</span>
+                  </label>
+                ))}
+                <button
+                  onClick={() => updatePlayer(slot, { attributes: { ...ROLE_ATTRIBUTES[roles[slot]] } })}
+                  className="col-span-2 justify-self-end px-2 py-0.5 rounded font-bold border bg-gray-700 border-gray-600 text-gray-300 hover:text-white"
+                >
+                  {ROLE_LABELS[roles[slot]]} 기본 능력치로
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      {duplicates.length > 0 && <p className="text-xs text-yellow-400 mt-1">등번호 {duplicates.join(', ')}번이 겹칩니다.</p>}
+    </div>
+  );
+};
+
+const RosterEditor: React.FC<RosterEditorProps> = ({ rosters, setups, onChange, onClose }) => {
+  const [team, setTeam] = useState<Team>(Team.BLUE);
+
+  const sameKits = rosters[Team.BLUE].primaryColor.toLowerCase() === rosters[Team.RED].primaryColor.toLowerCase();
+
+  const update = (roster: TeamRoster) => onChange({ ...rosters, [team]: roster });
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 p-6 rounded-xl border border-emerald-500/50 w-full max-w-xl shadow-2xl relative" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <X size={24} />
+        </button>
+
+        <h3 className="font-bold text-2xl text-emerald-400 mb-4 flex items-center gap-2 border-b border-gray-700 pb-2">
+          <Shirt size={24} /> 팀 · 선수 명단
+        </h3>
+
+        <div className="flex gap-2 mb-4">
+          {TEAMS.map(option => (
+            <button
+              key={option.team}
+              onClick={() => setTeam(option.team)}
+              style={team === option.team ? { backgroundColor: rosters[option.team].primaryColor, color: rosters[option.team].secondaryColor } : undefined}
+              className={`flex-1 py-1 rounded text-sm font-bold border ${team === option.team ? 'border-white/60' : 'bg-gray-700 border-gray-600 text-gray-400 hover:text-white'}`}
+            >
+              {rosters[option.team].name} <span className="text-xs font-normal opacity-80">· {option.side}</span>
+            </button>
+          ))}
+        </div>
+
+        <TeamRosterForm key={team} roster={rosters[team]} roles={setups[team].formation.map(slot => slot.role)} onChange={update} />
+        {sameKits && <p className="text-xs text-yellow-400 mt-1">두 팀의 유니폼 색이 같아서 경기장에서 구분하기 어렵습니다.</p>}
+
+        <div className="mt-4 flex items-center justify-between">
+          <span className="text-xs text-gray-500">명단은 이 기기에 저장되며, 전광판·해설·음성 중계에 쓰입니다.</span>
+          <button
+            onClick={() => update(DEFAULT_ROSTERS[team])}
+            className="px-3 py-1 rounded text-xs font-bold border bg-gray-700 border-gray-600 text-gray-300 hover:text-white"
+          >
+            기본값으로
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RosterEditor;
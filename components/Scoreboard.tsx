@@ -1,9 +1,11 @@
 import React from 'react';
-import { Team } from '../types';
+import { Team, BallHolder, Rosters } from '../types';
 
 interface ScoreboardProps {
   score: { [key in Team]: number };
   time: number;
+  possession?: BallHolder | null;
+  rosters: Rosters;
 }
 
 const formatTime = (seconds: number) => {
@@ -12,14 +14,29 @@ const formatTime = (seconds: number) => {
   return `${m}:${s.toString().padStart(2, '0')}`;
 };
 
-const Scoreboard: React.FC<ScoreboardProps> = ({ score, time }) => {
+// Small "has the ball" tag next to a team's score
+const PossessionTag: React.FC<{ holder?: BallHolder | null; team: Team }> = ({ holder, team }) => (
+  <div className={`text-[10px] font-mono font-bold text-yellow-300 w-8 transition-opacity ${holder?.team === team ? 'opacity-100' : 'opacity-0'}`}>
+    ⚽{holder?.team === team ? `#${holder.jerseyNum}` : ''}
+  </div>
+);
+
+// Short code in the team's kit colour, with the full name on hover
+const TeamCode: React.FC<{ rosters: Rosters; team: Team }> = ({ rosters, team }) => (
+  <div className="text-[10px] font-bold uppercase tracking-wider" style={{ color: rosters[team].primaryColor }} title={rosters[team].name}>
+    {rosters[team].shortCode}
+  </div>
+);
+
+const Scoreboard: React.FC<ScoreboardProps> = ({ score, time, possession, rosters }) => {
   return (
     <div className="flex items-center justify-between bg-gray-900 text-white p-2 rounded-lg shadow-lg border border-gray-700 w-full max-w-sm mx-auto mb-2 scale-90 md:scale-100">
       <div className="flex items-center gap-2">
         <div className="text-right">
-          <div className="text-[10px] text-blue-400 font-bold uppercase tracking-wider">블루</div>
+          <TeamCode rosters={rosters} team={Team.BLUE} />
           <div className="text-2xl font-black font-mono leading-none">{score[Team.BLUE]}</div>
         </div>
+        <PossessionTag holder={possession} team={Team.BLUE} />
       </div>
 
       <div className="bg-gray-800 px-4 py-1 rounded border border-gray-700">
@@ -29,8 +46,9 @@ const Scoreboard: React.FC<ScoreboardProps> = ({ score, time }) => {
       </div>
 
       <div className="flex items-center gap-2">
+        <PossessionTag holder={possession} team={Team.RED} />
         <div className="text-left">
-          <div className="text-[10px] text-red-400 font-bold uppercase tracking-wider">레드</div>
+          <TeamCode rosters={rosters} team={Team.RED} />
           <div className="text-2xl font-black font-mono leading-none">{score[Team.RED]}</div>
         </div>
       </div>
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Rosters, Shootout, Team } from '../types';
+import { SHOOTOUT_ROUNDS, shootoutScore } from '../engine/shootout';
+
+interface ShootoutBoardProps {
+  shootout: Shootout;
+  rosters: Rosters;
+  className?: string;
+}
+
+const TEAMS = [Team.BLUE, Team.RED];
+
+/** Each side's kicks so far: ● scored, ✕ missed, ○ still to take in the first five. */
+const ShootoutBoard: React.FC<ShootoutBoardProps> = ({ shootout, rosters, className = '' }) => {
+  const score = shootoutScore(shootout);
+  return (
+    <div className={`text-xs font-mono font-bold ${className}`}>
+      {TEAMS.map(team => {
+        const kicks = shootout.kicks.filter(k => k.team === team);
+        const marks = [...kicks.map(k => k.scored ? '●' : '✕'), ...Array(Math.max(0, SHOOTOUT_ROUNDS - kicks.length)).fill('○')];
+        return (
+          <div key={team} className="flex items-center gap-2">
+            <span className="w-10" style={{ color: rosters[team].primaryColor }}>{rosters[team].shortCode}</span>
+            <span className="flex-1 tracking-widest text-gray-300">{marks.join(' ')}</span>
+            <span className="text-white">{score[team]}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ShootoutBoard;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { GoalRecord, MatchRules, MatchStats, PlayerStats, Rosters, Team } from '../types';
+import { possessionShare, teamStats, TeamStats } from '../engine/stats';
+import { periodName } from '../engine/rules';
+import { BarChart3, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface StatsPanelProps {
+  stats: MatchStats;
+  rosters: Rosters;
+  rules: MatchRules; // For naming the periods
+}
+
+const TEAMS = [Team.BLUE, Team.RED];
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+/** Blue's share of possession on the left, Red's on the right, in kit colours. */
+export const PossessionBar: React.FC<{ stats: MatchStats; rosters: Rosters; className?: string }> = ({ stats, rosters, className = '' }) => {
+  const share = possessionShare(stats);
+  return (
+    <div className={`flex items-center gap-2 text-[10px] font-mono font-bold text-gray-300 ${className}`} title="점유율">
+      <span className="w-8 text-right">{percent(share)}</span>
+      <div className="flex-1 h-1.5 rounded-full overflow-hidden flex bg-gray-700">
+        <div className="transition-all duration-500" style={{ width: `${share * 100}%`, backgroundColor: rosters[Team.BLUE].primaryColor }} />
+        <div className="flex-1" style={{ backgroundColor: rosters[Team.RED].primaryColor }} />
+      </div>
+      <span className="w-8">{percent(1 - share)}</span>
+    </div>
+  );
+};
+
+interface StatRow {
+  label: string;
+  value: (t: TeamStats) => number; // Compared between the teams for the bars
+  text?: (t: TeamStats) => string;
+}
+
+const passText = (t: TeamStats) =>
+  `${t.passesCompleted}/${t.passes}${t.passes > 0 ? ` (${percent(t.passesCompleted / t.passes)})` : ''}`;
+
+const ROWS: StatRow[] = [
+  { label: '슈팅', value: t => t.shots },
+  { label: '유효 슈팅', value: t => t.shotsOnTarget },
+  { label: '패스 성공', value: t => t.passesCompleted, text: passText },
+  { label: '태클', value: t => t.tackles },
+  { label: '선방', value: t => t.saves },
+  { label: '파울', value: t => t.fouls },
+];
+
+const formatClock = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
+
+const scorerLabel = (goal: GoalRecord, stats: MatchStats, rosters: Rosters) => {
+  const scorer = stats.players.find(p => p.playerId === goal.scorerId);
+  if (!scorer) return '득점자 없음';
+  const name = rosters[scorer.team].players[scorer.slot]?.name;
+  const label = name ? `${scorer.jerseyNum}번 ${name}` : `${scorer.jerseyNum}번`;
+  return goal.ownGoal ? `${label} (${rosters[scorer.team].shortCode} 자책골)` : label;
+};
+
+const PlayerTable: React.FC<{ players: PlayerStats[]; rosters: Rosters; team: Team }> = ({ players, rosters, team }) => (
+  <table className="w-full text-xs font-mono">
+    <thead>
+      <tr className="text-gray-500">
+        <th className="text-left font-bold py-1" style={{ color: rosters[team].primaryColor }}>{rosters[team].shortCode}</th>
+        <th title="골">골</th>
+        <th title="슈팅 (유효)">슈팅</th>
+        <th title="패스 성공/시도">패스</th>
+        <th title="태클">태클</th>
+        <th title="선방">선방</th>
+      </tr>
+    </thead>
+    <tbody className="text-gray-300">
+      {players.filter(p => p.team === team).map(p => (
+        <tr key={p.playerId} className="border-t border-gray-700/60">
+          <td className="text-left py-0.5 truncate max-w-[7rem]">{p.jerseyNum} {rosters[team].players[p.slot]?.name}</td>
+          <td className="text-center">{p.goals || '-'}</td>
+          <td className="text-center">{p.shots ? `${p.shots} (${p.shotsOnTarget})` : '-'}</td>
+          <td className="text-center">{p.passes ? `${p.passesCompleted}/${p.passes}` : '-'}</td>
+          <td className="text-center">{p.tackles || '-'}</td>
+          <td className="text-center">{p.saves || '-'}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/** Full-time numbers: possession, team comparison, goal list and, on demand, each player's line. */
+const StatsPanel: React.FC<StatsPanelProps> = ({ stats, rosters, rules }) => {
+  const [showPlayers, setShowPlayers] = useState(false);
+  const [blue, red] = TEAMS.map(team => teamStats(stats, team));
+
+  return (
+    <div className="text-left bg-gray-900/60 rounded-xl border border-gray-700 p-4 mb-6">
+      <h3 className="text-sm font-bold text-emerald-400 mb-3 flex items-center gap-1">
+        <BarChart3 size={16} /> 경기 기록
+      </h3>
+
+      {stats.goals.length > 0 && (
+        <ul className="mb-3 space-y-0.5 text-xs">
+          {stats.goals.map((goal, i) => (
+            <li key={i} className={`flex gap-2 ${goal.team === Team.RED ? 'flex-row-reverse text-right' : ''}`}>
+              <span className="font-mono text-yellow-400 w-8 shrink-0">{goal.minute}'</span>
+              <span className="text-gray-200">
+                ⚽ <span style={{ color: rosters[goal.team].primaryColor }}>{scorerLabel(goal, stats, rosters)}</span>
+                <span className="text-gray-500 font-mono"> · {periodName(rules, goal.period)} {formatClock(goal.time)}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="text-[10px] text-center text-gray-500 font-bold mb-0.5">점유율</div>
+      <PossessionBar stats={stats} rosters={rosters} className="mb-3" />
+
+      <div className="space-y-1.5">
+        {ROWS.map(row => {
+          const [b, r] = [row.value(blue), row.value(red)];
+          const total = b + r;
+          return (
+            <div key={row.label} className="grid grid-cols-[1fr_auto_1fr] items-center gap-2 text-xs font-mono">
+              <div className="flex items-center gap-2 justify-end">
+                <span className="text-gray-200">{row.text ? row.text(blue) : b}</span>
+                <div className="w-16 h-1 bg-gray-700 rounded-full flex justify-end overflow-hidden">
+                  <div className="h-full" style={{ width: total ? `${(b / total) * 100}%` : 0, backgroundColor: rosters[Team.BLUE].primaryColor }} />
+                </div>
+              </div>
+              <span className="w-16 text-center text-gray-400 font-sans font-bold">{row.label}</span>
+              <div className="flex items-center gap-2">
+                <div className="w-16 h-1 bg-gray-700 rounded-full overflow-hidden">
+                  <div className="h-full" style={{ width: total ? `${(r / total) * 100}%` : 0, backgroundColor: rosters[Team.RED].primaryColor }} />
+                </div>
+                <span className="text-gray-200">{row.text ? row.text(red) : r}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={() => setShowPlayers(prev => !prev)}
+        className="mt-3 w-full text-xs font-bold text-gray-400 hover:text-white flex items-center justify-center gap-1"
+      >
+        선수별 기록 {showPlayers ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+      {showPlayers && (
+        <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {TEAMS.map(team => <PlayerTable key={team} players={stats.players} rosters={rosters} team={team} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatsPanel;
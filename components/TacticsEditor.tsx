@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import { Formation, PlayerRole, Tactics, Team, TeamSetup, TeamSetups } from '../types';
+import { DEFAULT_TEAM_SETUPS, FORMATIONS } from '../constants';
+import { formationName, roleForDepth } from '../engine/formation';
+import { LayoutGrid, X } from 'lucide-react';
+
+interface TacticsEditorProps {
+  setups: TeamSetups;
+  onChange: (setups: TeamSetups) => void;
+  onClose: () => void;
+}
+
+const TEAMS: { team: Team; label: string; className: string; dotClassName: string }[] = [
+  { team: Team.BLUE, label: '블루', className: 'bg-blue-600 border-blue-400', dotClassName: 'bg-blue-500' },
+  { team: Team.RED, label: '레드', className: 'bg-red-600 border-red-400', dotClassName: 'bg-red-500' },
+];
+
+const ROLE_LABELS: { [key in PlayerRole]: string } = {
+  [PlayerRole.GOALKEEPER]: 'GK',
+  [PlayerRole.DEFENDER]: 'DF',
+  [PlayerRole.MIDFIELDER]: 'MF',
+  [PlayerRole.FORWARD]: 'FW',
+};
+
+const SLIDERS: { key: keyof Tactics; label: string; low: string; high: string }[] = [
+  { key: 'lineHeight', label: '수비 라인', low: '낮게', high: '높게' },
+  { key: 'pressing', label: '압박 강도', low: '약하게', high: '강하게' },
+  { key: 'width', label: '폭', low: '좁게', high: '넓게' },
+];
+
+// Outfield players can be dragged anywhere short of the goal areas and touchlines
+const DRAG_X = [0.15, 0.85];
+const DRAG_Y = [0.1, 0.9];
+
+const clamp = (value: number, [min, max]: number[]) => Math.max(min, Math.min(max, value));
+
+const sameFormation = (a: Formation, b: Formation) => JSON.stringify(a) === JSON.stringify(b);
+
+const TacticsEditor: React.FC<TacticsEditorProps> = ({ setups, onChange, onClose }) => {
+  const [team, setTeam] = useState<Team>(Team.BLUE);
+  const [dragging, setDragging] = useState<number | null>(null); // Slot being dragged
+  const pitchRef = useRef<HTMLDivElement>(null);
+
+  const setup = setups[team];
+  const dotClassName = TEAMS.find(t => t.team === team)?.dotClassName;
+
+  const update = (changes: Partial<TeamSetup>) => onChange({ ...setups, [team]: { ...setup, ...changes } });
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const rect = pitchRef.current?.getBoundingClientRect();
+    if (dragging === null || !rect) return;
+    const x = clamp((e.clientX - rect.left) / rect.width, DRAG_X);
+    const y = clamp((e.clientY - rect.top) / rect.height, DRAG_Y);
+    // The line a player is dragged into decides their role
+    update({ formation: setup.formation.map((slot, i) => i === dragging ? { role: roleForDepth(x), x, y } : slot) });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 p-6 rounded-xl border border-emerald-500/50 w-full max-w-xl shadow-2xl relative" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <X size={24} />
+        </button>
+
+        <h3 className="font-bold text-2xl text-emerald-400 mb-4 flex items-center gap-2 border-b border-gray-700 pb-2">
+          <LayoutGrid size={24} /> 포메이션 · 전술
+        </h3>
+
+        <div className="flex gap-2 mb-3">
+          {TEAMS.map(option => (
+            <button
+              key={option.team}
+              onClick={() => setTeam(option.team)}
+              className={`flex-1 py-1 rounded text-sm font-bold border ${team === option.team ? `${option.className} text-white` : 'bg-gray-700 border-gray-600 text-gray-400 hover:text-white'}`}
+            >
+              {option.label} · {formationName(setups[option.team].formation)}
+            </button>
+          ))}
+        </div>
+
+        {/* Formation presets */}
+        <div className="grid grid-cols-5 gap-2 mb-3">
+          {FORMATIONS.map(formation => (
+            <button
+              key={formationName(formation)}
+              onClick={() => update({ formation })}
+              className={`py-1 rounded text-xs font-bold font-mono border ${sameFormation(setup.formation, formation) ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-gray-700 border-gray-600 text-gray-400 hover:text-white'}`}
+            >
+              {formationName(formation)}
+            </button>
+          ))}
+        </div>
+
+        {/* Drag-to-place pitch, always drawn attacking to the right */}
+        <div
+          ref={pitchRef}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragging(null)}
+          className="relative w-full aspect-[8/5] bg-emerald-600 rounded-lg border-2 border-white/60 overflow-hidden touch-none select-none"
+        >
+          <div className="absolute inset-y-0 left-1/2 border-l-2 border-white/40" />
+          <div className="absolute top-1/2 left-1/2 w-[12.5%] aspect-square -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white/40" />
+          <div className="absolute top-1/2 left-0 w-[12.5%] h-[48%] -translate-y-1/2 border-2 border-l-0 border-white/40" />
+          <div className="absolute top-1/2 right-0 w-[12.5%] h-[48%] -translate-y-1/2 border-2 border-r-0 border-white/40" />
+          <div className="absolute bottom-1 right-2 text-[10px] font-bold text-white/70">공격 방향 →</div>
+
+          {setup.formation.map((slot, i) => {
+            const isKeeper = slot.role === PlayerRole.GOALKEEPER;
+            return (
+              <div
+                key={i}
+                onPointerDown={e => {
+                  if (isKeeper) return;
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  setDragging(i);
+                }}
+                style={{ left: `${slot.x * 100}%`, top: `${slot.y * 100}%` }}
+                className={`absolute w-8 h-8 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 flex items-center justify-center text-[10px] font-black text-white shadow ${dotClassName} ${dragging === i ? 'border-yellow-300 scale-110' : 'border-white'} ${isKeeper ? 'opacity-70' : 'cursor-grab'}`}
+              >
+                {ROLE_LABELS[slot.role]}
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-xs text-gray-400 mt-1">선수를 끌어서 위치를 바꿀 수 있습니다. 놓는 위치에 따라 수비(DF)·미드필더(MF)·공격(FW)이 정해집니다.</p>
+
+        {/* Team instructions */}
+        <div className="mt-4 space-y-2">
+          {SLIDERS.map(slider => (
+            <label key={slider.key} className="flex items-center gap-3 text-sm text-gray-300">
+              <span className="w-16 font-bold">{slider.label}</span>
+              <span className="w-10 text-right text-xs text-gray-500">{slider.low}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={setup.tactics[slider.key]}
+                onChange={e => update({ tactics: { ...setup.tactics, [slider.key]: Number(e.target.value) } })}
+                className="flex-1 accent-emerald-500"
+              />
+              <span className="w-10 text-xs text-gray-500">{slider.high}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="mt-4 flex items-center justify-between">
+          <span className="text-xs text-gray-500">설정은 이 기기에 저장되며, AI 선수들도 이 전술을 따릅니다.</span>
+          <button
+            onClick={() => update(DEFAULT_TEAM_SETUPS[team])}
+            className="px-3 py-1 rounded text-xs font-bold border bg-gray-700 border-gray-600 text-gray-300 hover:text-white"
+          >
+            기본값으로
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TacticsEditor;
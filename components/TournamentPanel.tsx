@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import { AI_PROFILES, DEFAULT_MATCH_RULES, DEFAULT_TEAM_SETUPS } from '../constants';
+import { Difficulty, Fixture, MatchRules, Team, TieBreak, Tournament, TournamentFormat, TournamentTeam } from '../types';
+import {
+  champion, createTournament, defaultTournamentTeam, groupCountOptions, groupName, isAiFixture, isPlayable,
+  roundName, standings, TEAM_COUNT,
+} from '../engine/tournament';
+import { randomSeed } from '../engine/random';
+import { decisiveRules } from '../engine/rules';
+import { TeamRosterForm } from './RosterEditor';
+import MatchRulesForm from './MatchRulesForm';
+import { Bot, ChevronDown, ChevronUp, Play, Trash2, Trophy, User, X, Zap } from 'lucide-react';
+
+interface TournamentPanelProps {
+  tournament: Tournament | null;
+  onChange: (tournament: Tournament | null) => void;
+  onPlay: (fixtureId: number) => void; // Start a fixture with a human team in it
+  simulating: boolean; // AI fixtures are being played out in the background
+  simulationError: string | null;
+  onSimulate: (only?: number) => void; // Play out the AI fixtures, or just the one given
+  onCancelSimulation: () => void;
+  onClose: () => void;
+}
+
+const DEFAULT_NAME = '창의미래교육 축구대회';
+
+const ROLES = DEFAULT_TEAM_SETUPS[Team.BLUE].formation.map(slot => slot.role);
+
+const KitDot: React.FC<{ team: TournamentTeam }> = ({ team }) => (
+  <span
+    className="inline-block w-3 h-3 rounded-full border border-white/40 shrink-0"
+    style={{ backgroundColor: team.roster.primaryColor }}
+  />
+);
+
+// --- Setup: entries, format and the draw ---
+
+const TournamentSetup: React.FC<{ onCreate: (tournament: Tournament) => void }> = ({ onCreate }) => {
+  const [name, setName] = useState(DEFAULT_NAME);
+  const [teamCount, setTeamCount] = useState(8);
+  const [format, setFormat] = useState<TournamentFormat>(TournamentFormat.KNOCKOUT);
+  const [groupCount, setGroupCount] = useState(1);
+  const [rules, setRules] = useState<MatchRules>(() => decisiveRules(DEFAULT_MATCH_RULES));
+  // All sixteen entries are kept, so lowering the count and raising it again doesn't lose edits
+  const [teams, setTeams] = useState<TournamentTeam[]>(() => Array.from({ length: TEAM_COUNT.max }, (_, i) => defaultTournamentTeam(i)));
+  const [expanded, setExpanded] = useState<number | null>(null); // Entry whose squad is open
+
+  const groupOptions = groupCountOptions(teamCount);
+  const groups = groupOptions.includes(groupCount) ? groupCount : 1;
+
+  const updateTeam = (index: number, changes: Partial<TournamentTeam>) =>
+    setTeams(prev => prev.map((t, i) => i === index ? { ...t, ...changes } : t));
+
+  const handleCreate = () => {
+    onCreate(createTournament(name.trim() || DEFAULT_NAME, format, groups, teams.slice(0, teamCount), randomSeed(), rules));
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex flex-col gap-1 text-sm text-gray-300">
+        <span className="font-bold">대회 이름</span>
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          className="bg-gray-900 text-white px-2 py-1 rounded border border-gray-600 focus:border-emerald-400 outline-none"
+        />
+      </label>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          <span className="font-bold">참가 팀</span>
+          <select
+            value={teamCount}
+            onChange={e => setTeamCount(Number(e.target.value))}
+            className="bg-gray-900 text-white px-2 py-1 rounded border border-gray-600"
+          >
+            {Array.from({ length: TEAM_COUNT.max - TEAM_COUNT.min + 1 }, (_, i) => TEAM_COUNT.min + i).map(n => (
+              <option key={n} value={n}>{n}팀</option>
+            ))}
+          </select>
+        </label>
+        {[TournamentFormat.KNOCKOUT, TournamentFormat.GROUPS].map(option => (
+          <button
+            key={option}
+            onClick={() => setFormat(option)}
+            className={`px-3 py-1 rounded font-bold border ${format === option ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-gray-700 border-gray-600 text-gray-400 hover:text-white'}`}
+          >
+            {option === TournamentFormat.KNOCKOUT ? '토너먼트' : '리그 · 조별리그'}
+          </button>
+        ))}
+        {format === TournamentFormat.GROUPS && groupOptions.map(option => (
+          <button
+            key={option}
+            onClick={() => setGroupCount(option)}
+            className={`px-2 py-1 rounded text-xs font-bold border ${groups === option ? 'bg-emerald-700 border-emerald-400 text-white' : 'bg-gray-700 border-gray-600 text-gray-400 hover:text-white'}`}
+          >
+            {option === 1 ? '풀리그' : `${option}개 조`}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        {format === TournamentFormat.KNOCKOUT
+          ? '추첨으로 대진표를 정하고, 지면 탈락합니다.'
+          : groups === 1
+            ? '모든 팀이 한 번씩 맞붙고, 승점(승 3 · 무 1)이 가장 높은 팀이 우승합니다.'
+            : '조별 풀리그 후 각 조 1·2위가 토너먼트에 진출합니다.'}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+        <span className="font-bold">경기 규칙</span>
+        <MatchRulesForm rules={rules} decisive onChange={setRules} />
+      </div>
+      {(format === TournamentFormat.KNOCKOUT || groups > 1) && (
+        <p className="text-xs text-gray-500 -mt-2">
+          토너먼트 경기가 동점으로 끝나면 {rules.tieBreak === TieBreak.GOLDEN_GOAL ? '골든골 연장전, 그래도 동점이면 승부차기' : '승부차기'}로 승자를 가립니다.
+          {format === TournamentFormat.GROUPS && ' 조별리그 경기는 무승부를 인정합니다.'}
+        </p>
+      )}
+
+      {/* Entries */}
+      <div className="space-y-1 max-h-72 overflow-y-auto pr-1">
+        {teams.slice(0, teamCount).map((team, index) => (
+          <div key={index} className="bg-gray-900/60 rounded border border-gray-700">
+            <div className="flex items-center gap-2 px-2 py-1 text-sm">
+              <KitDot team={team} />
+              <span className="flex-1 font-bold text-white truncate">{team.roster.name}</span>
+              <button
+                onClick={() => updateTeam(index, { human: !team.human })}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs font-bold border ${team.human ? 'bg-blue-600 border-blue-400 text-white' : 'bg-gray-700 border-gray-600 text-gray-300'}`}
+              >
+                {team.human ? <><User size={12} /> 사람</> : <><Bot size={12} /> AI</>}
+              </button>
+              {!team.human && (
+                <select
+                  value={team.difficulty}
+                  onChange={e => updateTeam(index, { difficulty: e.target.value as Difficulty })}
+                  className="bg-gray-800 text-white text-xs px-1 py-0.5 rounded border border-gray-600"
+                >
+                  {Object.values(Difficulty).map(level => <option key={level} value={level}>{AI_PROFILES[level].label}</option>)}
+                </select>
+              )}
+              <button onClick={() => setExpanded(expanded === index ? null : index)} className="text-gray-400 hover:text-white" title="팀 · 선수 명단">
+                {expanded === index ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+              </button>
+            </div>
+            {expanded === index && (
+              <div className="px-2 pb-2">
+                <TeamRosterForm key={index} roster={team.roster} roles={ROLES} onChange={roster => updateTeam(index, { roster })} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={handleCreate}
+        className="w-full py-2 bg-emerald-600 hover:bg-emerald-500 text-white font-black rounded-xl flex items-center justify-center gap-2"
+      >
+        <Trophy size={18} /> 추첨하고 대회 시작
+      </button>
+    </div>
+  );
+};
+
+// --- Running tournament: tables, fixtures and results ---
+
+const GroupTable: React.FC<{ tournament: Tournament; group: number }> = ({ tournament, group }) => (
+  <table className="w-full text-xs text-gray-300">
+    <thead>
+      <tr className="text-gray-500">
+        <th className="text-left font-bold py-0.5">{groupName(group)}</th>
+        {['경기', '승', '무', '패', '득실', '승점'].map(label => <th key={label} className="w-9 text-center font-normal">{label}</th>)}
+      </tr>
+    </thead>
+    <tbody>
+      {standings(tournament, group).map((row, rank) => {
+        const team = tournament.teams[row.team];
+        // With more than one group, the top two go through
+        const qualifies = tournament.groups.length > 1 && rank < 2;
+        return (
+          <tr key={row.team} className={`border-t border-gray-700/60 ${qualifies ? 'text-white' : ''}`}>
+            <td className="py-0.5 flex items-center gap-1"><KitDot team={team} /> {team.roster.name}</td>
+            <td className="text-center">{row.played}</td>
+            <td className="text-center">{row.won}</td>
+            <td className="text-center">{row.drawn}</td>
+            <td className="text-center">{row.lost}</td>
+            <td className="text-center">{row.goalsFor - row.goalsAgainst > 0 ? '+' : ''}{row.goalsFor - row.goalsAgainst}</td>
+            <td className="text-center font-bold">{row.points}</td>
+          </tr>
+        );
+      })}
+    </tbody>
+  </table>
+);
+
+const TournamentView: React.FC<Omit<TournamentPanelProps, 'tournament' | 'onClose'> & { tournament: Tournament }> = ({
+  tournament, onChange, onPlay, simulating, simulationError, onSimulate, onCancelSimulation,
+}) => {
+  // Simulation only runs while the fixtures are on screen
+  useEffect(() => onCancelSimulation, [onCancelSimulation]);
+
+  const winner = champion(tournament);
+  const aiFixturesLeft = tournament.fixtures.some(f => isPlayable(f) && isAiFixture(tournament, f));
+
+  const teamLabel = (f: Fixture, side: 'home' | 'away') => {
+    const index = f[side];
+    if (index !== null) {
+      const team = tournament.teams[index];
+      return <span className="flex items-center gap-1 truncate"><KitDot team={team} /> {team.roster.name}</span>;
+    }
+    const from = tournament.fixtures[f[side === 'home' ? 'homeFrom' : 'awayFrom']!];
+    return <span className="text-gray-500 truncate">{roundName(tournament, from)} 승자</span>;
+  };
+
+  const rounds = [...new Set(tournament.fixtures.map(f => roundName(tournament, f)))];
+
+  return (
+    <div className="space-y-4">
+      {winner !== null && (
+        <div className="bg-yellow-500/20 border border-yellow-400 rounded-xl p-3 text-center">
+          <Trophy size={28} className="text-yellow-400 mx-auto mb-1" />
+          <div className="text-lg font-black text-yellow-300">{tournament.teams[winner].roster.name} 우승!</div>
+        </div>
+      )}
+
+      {tournament.groups.length > 0 && (
+        <div className="grid md:grid-cols-2 gap-3">
+          {tournament.groups.map((_, g) => <GroupTable key={g} tournament={tournament} group={g} />)}
+        </div>
+      )}
+
+      <div className="max-h-72 overflow-y-auto pr-1 space-y-2">
+        {rounds.map(round => (
+          <div key={round}>
+            <div className="text-xs font-bold text-emerald-400 mb-1">{round}</div>
+            {tournament.fixtures.filter(f => roundName(tournament, f) === round).map(f => (
+              <div key={f.id} className="grid grid-cols-[1fr_auto_1fr_auto] items-center gap-2 text-sm text-gray-200 py-0.5">
+                {teamLabel(f, 'home')}
+                <span className="font-mono font-bold text-center w-16">
+                  {f.result ? `${f.result.home} : ${f.result.away}` : 'vs'}
+                  {f.result?.penalties && <span className="block text-[10px] text-gray-400">PK {f.result.penalties.home}:{f.result.penalties.away}</span>}
+                </span>
+                {teamLabel(f, 'away')}
+                <span className="w-20 text-right">
+                  {isPlayable(f) && (isAiFixture(tournament, f)
+                    ? <button disabled={simulating} onClick={() => onSimulate(f.id)} className="px-2 py-0.5 rounded text-xs font-bold bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50">시뮬레이션</button>
+                    : <button disabled={simulating} onClick={() => onPlay(f.id)} className="px-2 py-0.5 rounded text-xs font-bold bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 inline-flex items-center gap-1"><Play size={10} fill="currentColor" /> 경기</button>)}
+                  {f.result?.simulated && <span className="text-[10px] text-gray-500">시뮬레이션</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          disabled={!aiFixturesLeft || simulating}
+          onClick={() => onSimulate()}
+          className="flex-1 py-2 bg-emerald-700 hover:bg-emerald-600 disabled:opacity-40 text-white font-bold text-sm rounded-xl flex items-center justify-center gap-2"
+        >
+          <Zap size={16} /> {simulating ? '시뮬레이션 중...' : 'AI 경기 모두 시뮬레이션'}
+        </button>
+        <button
+          disabled={simulating}
+          onClick={() => { if (window.confirm('진행 중인 대회를 지우고 새로 만들까요?')) onChange(null); }}
+          className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-300 text-sm rounded-xl flex items-center gap-1"
+        >
+          <Trash2 size={16} /> 새 대회
+        </button>
+      </div>
+      {simulationError && <p className="text-xs text-red-400">{simulationError}</p>}
+      <p className="text-xs text-gray-500">
+        사람 팀이 나오는 경기는 직접 플레이합니다. 사람 팀끼리 만나면 2P 대전이 됩니다. 대회 진행 상황은 이 기기에 저장됩니다.
+      </p>
+    </div>
+  );
+};
+
+const TournamentPanel: React.FC<TournamentPanelProps> = ({ tournament, onClose, ...viewProps }) => (
+  <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+    <div className="bg-gray-800 p-6 rounded-xl border border-yellow-500/50 w-full max-w-2xl shadow-2xl relative max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+      <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+        <X size={24} />
+      </button>
+
+      <h3 className="font-bold text-2xl text-yellow-400 mb-4 flex items-center gap-2 border-b border-gray-700 pb-2">
+        <Trophy size={24} /> {tournament ? tournament.name : '대회 만들기'}
+      </h3>
+
+      {tournament
+        ? <TournamentView tournament={tournament} {...viewProps} />
+        : <TournamentSetup onCreate={viewProps.onChange} />}
+    </div>
+  </div>
+);
+
+export default TournamentPanel;
@@ -0,0 +1,130 @@
+import { GameConfig, HeatGrid, Rosters, ShotOutcome, ShotRecord, Team } from '../types';
+import { drawPitch } from './pitchRenderer';
+
+// Post-match heatmaps and shot maps, drawn over the same pitch as the live match so they can be
+// saved as pictures
+
+const HEAT_BLUR = 10; // px; smooths the coarse sample grid into blobs
+
+const SHOT_LABELS: { [key in ShotOutcome]: string } = {
+  goal: '골',
+  saved: '선방됨',
+  missed: '빗나감 · 막힘',
+};
+
+// Cold to hot: blue, cyan, green, yellow, red
+const HEAT_STOPS = [[37, 99, 235], [6, 182, 212], [34, 197, 94], [250, 204, 21], [239, 68, 68]];
+
+const heatColor = (t: number) => {
+  const scaled = t * (HEAT_STOPS.length - 1);
+  const i = Math.min(HEAT_STOPS.length - 2, Math.floor(scaled));
+  const f = scaled - i;
+  return HEAT_STOPS[i].map((c, k) => Math.round(c + (HEAT_STOPS[i + 1][k] - c) * f));
+};
+
+// Pitch faded back a little so the overlay reads clearly
+const drawFadedPitch = (ctx: CanvasRenderingContext2D, config: GameConfig) => {
+  drawPitch(ctx, config);
+  ctx.fillStyle = 'rgba(17, 24, 39, 0.35)';
+  ctx.fillRect(0, 0, config.pitchWidth, config.pitchHeight);
+};
+
+// Title box in the top-left corner, so an exported picture says what it shows
+const drawTitle = (ctx: CanvasRenderingContext2D, title: string) => {
+  ctx.save();
+  ctx.font = 'bold 14px "Noto Sans KR", Arial';
+  const width = ctx.measureText(title).width + 16;
+  ctx.fillStyle = 'rgba(17, 24, 39, 0.8)';
+  ctx.fillRect(8, 36, width, 24);
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(title, 16, 48);
+  ctx.restore();
+};
+
+/** Where a player, team or the ball spent the match: hotter colours for more time. */
+export const drawHeatmap = (ctx: CanvasRenderingContext2D, grid: HeatGrid, title: string, config: GameConfig) => {
+  drawFadedPitch(ctx, config);
+
+  const max = Math.max(...grid.cells);
+  if (max > 0) {
+    // One pixel per cell, scaled up and blurred onto the pitch
+    const cells = document.createElement('canvas');
+    cells.width = grid.cols;
+    cells.height = grid.rows;
+    const cellCtx = cells.getContext('2d')!;
+    const image = cellCtx.createImageData(grid.cols, grid.rows);
+    grid.cells.forEach((count, i) => {
+      if (count === 0) return;
+      const t = count / max;
+      const [r, g, b] = heatColor(t);
+      image.data.set([r, g, b, Math.round(255 * Math.min(0.85, 0.25 + t))], i * 4);
+    });
+    cellCtx.putImageData(image, 0, 0);
+
+    ctx.save();
+    ctx.imageSmoothingEnabled = true;
+    ctx.filter = `blur(${HEAT_BLUR}px)`;
+    ctx.drawImage(cells, 0, 0, config.pitchWidth, config.pitchHeight);
+    ctx.restore();
+  }
+
+  drawTitle(ctx, title);
+};
+
+const drawShotMarker = (ctx: CanvasRenderingContext2D, x: number, y: number, outcome: ShotOutcome, color: string) => {
+  ctx.beginPath();
+  ctx.arc(x, y, outcome === 'goal' ? 9 : 7, 0, Math.PI * 2);
+  if (outcome === 'missed') {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 3;
+    ctx.stroke();
+    return;
+  }
+  ctx.fillStyle = color;
+  ctx.fill();
+  ctx.strokeStyle = outcome === 'goal' ? '#facc15' : '#ffffff';
+  ctx.lineWidth = outcome === 'goal' ? 4 : 2;
+  ctx.stroke();
+};
+
+/** Every shot from where it was struck, with a faint line to the goal it was aimed at, marked by outcome. */
+export const drawShotMap = (ctx: CanvasRenderingContext2D, shots: ShotRecord[], rosters: Rosters, title: string, config: GameConfig) => {
+  drawFadedPitch(ctx, config);
+  const h = config.pitchHeight;
+
+  ctx.save();
+  shots.forEach(shot => {
+    const goalX = shot.team === Team.BLUE ? config.pitchWidth : 0;
+    ctx.beginPath();
+    ctx.moveTo(shot.pos.x, shot.pos.y);
+    ctx.lineTo(goalX, h / 2);
+    ctx.strokeStyle = shot.outcome === 'goal' ? 'rgba(250, 204, 21, 0.6)' : 'rgba(255, 255, 255, 0.2)';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  });
+  // Goals last, on top
+  [...shots]
+    .sort((a, b) => Number(a.outcome === 'goal') - Number(b.outcome === 'goal'))
+    .forEach(shot => drawShotMarker(ctx, shot.pos.x, shot.pos.y, shot.outcome, rosters[shot.team].primaryColor));
+
+  // Legend along the bottom
+  ctx.font = 'bold 12px "Noto Sans KR", Arial';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  const outcomes: ShotOutcome[] = ['goal', 'saved', 'missed'];
+  const legendY = h - 44;
+  ctx.fillStyle = 'rgba(17, 24, 39, 0.8)';
+  ctx.fillRect(8, legendY - 14, 280, 28);
+  let x = 24;
+  outcomes.forEach(outcome => {
+    drawShotMarker(ctx, x, legendY, outcome, '#9ca3af');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(`${SHOT_LABELS[outcome]} ${shots.filter(s => s.outcome === outcome).length}`, x + 14, legendY + 1);
+    x += ctx.measureText(`${SHOT_LABELS[outcome]} 00`).width + 34;
+  });
+  ctx.restore();
+
+  drawTitle(ctx, title);
+};
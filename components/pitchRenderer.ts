@@ -0,0 +1,315 @@
+import { COLORS, PHYSICS, PITCH } from '../constants';
+import { GameConfig, MatchState, Player, SetPieceKind, Team } from '../types';
+import { playerLabel } from '../engine/roster';
+
+// Canvas drawing shared by the live pitch and the replay viewer
+
+const SET_PIECE_LABELS: { [key in SetPieceKind]: string } = {
+  freeKick: '프리킥',
+  penalty: '페널티킥',
+  throwIn: '스로인',
+  corner: '코너킥',
+  goalKick: '골킥',
+  kickoff: '킥오프',
+};
+
+// Mixes a #rrggbb colour towards white by `amount` (0..1), for the shine on the kit
+const lighten = (hex: string, amount: number) => {
+  const channels = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return `rgb(${channels.map(c => Math.round(c + (255 - c) * amount)).join(',')})`;
+};
+
+/** Grass, ad boards, lines and goals. */
+export const drawPitch = (ctx: CanvasRenderingContext2D, config: GameConfig) => {
+  const w = config.pitchWidth;
+  const h = config.pitchHeight;
+
+  // Clear
+  ctx.fillStyle = COLORS.pitch;
+  ctx.fillRect(0, 0, w, h);
+
+  // Buriman Ads (Modified)
+  const drawAdBoards = (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+    const boardHeight = PITCH.adBoardHeight;
+    const segments = 4;
+    const segmentWidth = w / segments;
+
+    // Top Board
+    for (let i = 0; i < segments; i++) {
+        ctx.fillStyle = i % 2 === 0 ? '#ef4444' : '#ffffff'; 
+        ctx.fillRect(i * segmentWidth, 0, segmentWidth, boardHeight);
+        
+        ctx.fillStyle = i % 2 === 0 ? '#ffffff' : '#ef4444';
+        ctx.font = '900 16px "Noto Sans KR", Arial'; 
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText("창의미래교육", i * segmentWidth + segmentWidth/2, boardHeight/2 + 1);
+    }
+    
+    // Bottom Board
+    for (let i = 0; i < segments; i++) {
+        ctx.fillStyle = i % 2 === 0 ? '#ef4444' : '#ffffff'; 
+        ctx.fillRect(i * segmentWidth, h - boardHeight, segmentWidth, boardHeight);
+        
+        ctx.fillStyle = i % 2 === 0 ? '#ffffff' : '#ef4444';
+        ctx.font = '900 16px "Noto Sans KR", Arial';
+        ctx.fillText("창의미래교육", i * segmentWidth + segmentWidth/2, h - boardHeight/2 + 1);
+    }
+  };
+
+  drawAdBoards(ctx, w, h);
+
+  // Pitch Lines
+  ctx.strokeStyle = COLORS.lines;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  const adOffset = PITCH.adBoardHeight;
+  ctx.strokeRect(0, adOffset, w, h - adOffset*2);
+  ctx.moveTo(w / 2, adOffset);
+  ctx.lineTo(w / 2, h - adOffset);
+  ctx.moveTo(w / 2 + PITCH.centreCircleRadius, h / 2);
+  ctx.arc(w / 2, h / 2, PITCH.centreCircleRadius, 0, Math.PI * 2);
+  
+  // Center dot
+  ctx.moveTo(w/2 + 3, h/2);
+  ctx.arc(w/2, h/2, 3, 0, Math.PI*2);
+
+  // Penalty areas, goal areas and spots
+  const boxTop = h / 2 - PITCH.penaltyAreaWidth / 2;
+  ctx.rect(0, boxTop, PITCH.penaltyAreaDepth, PITCH.penaltyAreaWidth);
+  ctx.rect(w - PITCH.penaltyAreaDepth, boxTop, PITCH.penaltyAreaDepth, PITCH.penaltyAreaWidth);
+  const goalAreaTop = h / 2 - PITCH.goalAreaWidth / 2;
+  ctx.rect(0, goalAreaTop, PITCH.goalAreaDepth, PITCH.goalAreaWidth);
+  ctx.rect(w - PITCH.goalAreaDepth, goalAreaTop, PITCH.goalAreaDepth, PITCH.goalAreaWidth);
+  ctx.moveTo(PITCH.penaltySpotDistance + 2, h/2);
+  ctx.arc(PITCH.penaltySpotDistance, h/2, 2, 0, Math.PI*2);
+  ctx.moveTo(w - PITCH.penaltySpotDistance + 2, h/2);
+  ctx.arc(w - PITCH.penaltySpotDistance, h/2, 2, 0, Math.PI*2);
+  
+  ctx.stroke();
+
+  // Goals (Visual Net)
+  const gw = config.goalWidth;
+  const goalDepth = 25; 
+  const drawGoalNet = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, isLeft: boolean) => {
+     ctx.save();
+     ctx.fillStyle = "rgba(255, 255, 255, 0.1)";
+     ctx.fillRect(x, y, w, h);
+     ctx.beginPath();
+     ctx.strokeStyle = "rgba(255, 255, 255, 0.8)";
+     ctx.lineWidth = 2;
+     ctx.rect(x, y, w, h);
+     ctx.stroke();
+     ctx.beginPath();
+     ctx.strokeStyle = "rgba(255, 255, 255, 0.5)";
+     ctx.lineWidth = 1;
+     const step = 5;
+     for(let i=x; i<=x+w; i+=step) {
+       ctx.moveTo(i, y); ctx.lineTo(i, y+h);
+     }
+     for(let j=y; j<=y+h; j+=step) {
+       ctx.moveTo(x, j); ctx.lineTo(x+w, j);
+     }
+     ctx.stroke();
+     ctx.beginPath();
+     ctx.strokeStyle = "#fff";
+     ctx.lineWidth = 3;
+     if (isLeft) {
+        ctx.moveTo(x+w, y); ctx.lineTo(x+w, y+h); 
+     } else {
+        ctx.moveTo(x, y); ctx.lineTo(x, y+h); 
+     }
+     ctx.stroke();
+     ctx.restore();
+  };
+
+  drawGoalNet(ctx, 0, h/2 - gw/2, goalDepth, gw, true);
+  drawGoalNet(ctx, w - goalDepth, h/2 - gw/2, goalDepth, gw, false);
+};
+
+// Blue's in the bottom-left corner, Red's in the bottom-right
+const drawStaminaGauge = (ctx: CanvasRenderingContext2D, p: Player) => {
+  const barW = 90;
+  const barH = 8;
+  const y = ctx.canvas.height - PITCH.adBoardHeight / 2;
+  const x = p.team === Team.BLUE ? 44 : ctx.canvas.width - 44 - barW;
+
+  ctx.fillStyle = 'rgba(0,0,0,0.6)';
+  ctx.fillRect(x - 40, y - 9, barW + 46, 18);
+  ctx.fillStyle = COLORS.activeRing[p.team];
+  ctx.font = 'bold 11px "Noto Sans KR", Arial';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`#${p.jerseyNum} ⚡`, x - 36, y);
+
+  ctx.fillStyle = 'rgba(255,255,255,0.15)';
+  ctx.fillRect(x, y - barH / 2, barW, barH);
+  ctx.fillStyle = p.stamina > 0.5 ? '#22c55e' : p.stamina > 0.25 ? '#eab308' : '#ef4444';
+  ctx.fillRect(x, y - barH / 2, barW * p.stamina, barH);
+  if (p.sprinting) {
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x - 0.5, y - barH / 2 - 0.5, barW + 1, barH + 1);
+  }
+};
+
+/** Players and ball. Teams in `controlledTeams` get the active-player ring. */
+export const drawMatch = (ctx: CanvasRenderingContext2D, state: MatchState, controlledTeams: Team[]) => {
+  const { players, ball, activePlayerIds, shotCharge, setPiece, rosters } = state;
+
+  // Set piece: name it, and show a human taker where they are aiming
+  if (setPiece) {
+    const taker = players.find(p => p.id === setPiece.takerId);
+    if (taker && controlledTeams.includes(setPiece.team)) {
+      ctx.save();
+      ctx.strokeStyle = COLORS.activeRing[setPiece.team];
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 6]);
+      ctx.beginPath();
+      ctx.moveTo(ball.pos.x, ball.pos.y);
+      ctx.lineTo(ball.pos.x + taker.facing.x * 80, ball.pos.y + taker.facing.y * 80);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    ctx.fillStyle = 'rgba(0,0,0,0.5)';
+    ctx.fillRect(ctx.canvas.width / 2 - 50, PITCH.adBoardHeight + 6, 100, 22);
+    ctx.fillStyle = lighten(rosters[setPiece.team].primaryColor, 0.5);
+    ctx.font = 'bold 13px "Noto Sans KR", Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(SET_PIECE_LABELS[setPiece.kind], ctx.canvas.width / 2, PITCH.adBoardHeight + 17);
+  }
+
+  // Draw Players
+  players.forEach(p => {
+    // Slide tackle / keeper dive streak
+    if (p.slideTime > PHYSICS.slideRecovery || p.diveTime > PHYSICS.diveRecovery) {
+      ctx.strokeStyle = 'rgba(255,255,255,0.35)';
+      ctx.lineWidth = p.radius * 1.4;
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      ctx.moveTo(p.pos.x, p.pos.y);
+      ctx.lineTo(p.pos.x - p.facing.x * 22, p.pos.y - p.facing.y * 22);
+      ctx.stroke();
+      ctx.lineCap = 'butt';
+    }
+
+    // Shadow
+    ctx.fillStyle = 'rgba(0,0,0,0.3)';
+    ctx.beginPath();
+    ctx.ellipse(p.pos.x + 2, p.pos.y + 4, p.radius, p.radius*0.6, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Player Body
+    const grad = ctx.createRadialGradient(p.pos.x - 3, p.pos.y - 3, 2, p.pos.x, p.pos.y, p.radius);
+    const kit = rosters[p.team];
+    grad.addColorStop(0, lighten(kit.primaryColor, 0.5));
+    grad.addColorStop(0.3, kit.primaryColor);
+    grad.addColorStop(1, '#1f2937'); 
+    
+    ctx.fillStyle = grad;
+    ctx.beginPath();
+    ctx.arc(p.pos.x, p.pos.y, p.radius, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // Jersey Number
+    ctx.fillStyle = kit.secondaryColor;
+    ctx.font = 'bold 10px "Noto Sans KR", Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(p.jerseyNum.toString(), p.pos.x, p.pos.y);
+
+    // Name tag under whoever has the ball and each human's player, if the roster gives them a name
+    const isActive = controlledTeams.includes(p.team) && p.id === activePlayerIds[p.team];
+    if ((p.id === ball.ownerId || isActive) && kit.players[p.slot]?.name) {
+      ctx.font = 'bold 9px "Noto Sans KR", Arial';
+      ctx.fillStyle = 'rgba(0,0,0,0.55)';
+      const label = playerLabel(kit, p);
+      const labelW = ctx.measureText(label).width + 6;
+      ctx.fillRect(p.pos.x - labelW / 2, p.pos.y + p.radius + 3, labelW, 12);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(label, p.pos.x, p.pos.y + p.radius + 9.5);
+    }
+
+    // Active Player Indicator (Ring)
+    if (isActive) {
+      ctx.strokeStyle = COLORS.activeRing[p.team]; 
+      ctx.lineWidth = 2.5;
+      ctx.beginPath();
+      ctx.arc(p.pos.x, p.pos.y, p.radius + 5, 0, Math.PI * 2);
+      ctx.stroke();
+      
+      // Indicator Arrow above player
+      ctx.fillStyle = COLORS.activeRing[p.team];
+      ctx.beginPath();
+      ctx.moveTo(p.pos.x, p.pos.y - p.radius - 12);
+      ctx.lineTo(p.pos.x - 4, p.pos.y - p.radius - 18);
+      ctx.lineTo(p.pos.x + 4, p.pos.y - p.radius - 18);
+      ctx.fill();
+
+      // Shot Power Meter (while shoot is held)
+      const charge = shotCharge[p.team];
+      if (charge > 0) {
+        const barW = 30;
+        const barH = 5;
+        const barX = p.pos.x - barW / 2;
+        const barY = p.pos.y - p.radius - 28;
+        ctx.fillStyle = 'rgba(0,0,0,0.6)';
+        ctx.fillRect(barX - 1, barY - 1, barW + 2, barH + 2);
+        ctx.fillStyle = `hsl(${120 - charge * 120}, 90%, 50%)`; // green -> red
+        ctx.fillRect(barX, barY, barW * charge, barH);
+      }
+    }
+  });
+
+  // Stamina HUD for each human-controlled team's active player, on the bottom ad boards
+  controlledTeams.forEach(team => {
+    const active = players.find(p => p.id === activePlayerIds[team]);
+    if (active) drawStaminaGauge(ctx, active);
+  });
+
+  // Draw Ball
+  ctx.fillStyle = 'rgba(0,0,0,0.2)';
+  ctx.beginPath();
+  ctx.ellipse(ball.pos.x + 2, ball.pos.y + 2, ball.radius, ball.radius*0.7, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = COLORS.ball;
+  ctx.beginPath();
+  ctx.arc(ball.pos.x, ball.pos.y, ball.radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#111';
+  ctx.beginPath();
+  ctx.arc(ball.pos.x, ball.pos.y, ball.radius/2.5, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+/** The "REPLAY" banner over a goal clip, with how far through it (0..1) playback is. */
+export const drawReplayBanner = (ctx: CanvasRenderingContext2D, progress: number) => {
+  const w = ctx.canvas.width;
+  const h = ctx.canvas.height;
+
+  // Darkened edges so the clip reads as a replay at a glance
+  ctx.strokeStyle = 'rgba(0,0,0,0.35)';
+  ctx.lineWidth = 12;
+  ctx.strokeRect(6, 6, w - 12, h - 12);
+
+  const x = 16;
+  const y = PITCH.adBoardHeight + 10;
+  ctx.fillStyle = 'rgba(0,0,0,0.65)';
+  ctx.fillRect(x, y, 118, 28);
+  ctx.fillStyle = '#ef4444';
+  ctx.beginPath();
+  ctx.arc(x + 14, y + 14, 5, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '900 16px "Noto Sans KR", Arial';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText('REPLAY', x + 26, y + 15);
+
+  ctx.fillStyle = 'rgba(255,255,255,0.2)';
+  ctx.fillRect(x, y + 28, 118, 3);
+  ctx.fillStyle = '#ef4444';
+  ctx.fillRect(x, y + 28, 118 * Math.max(0, Math.min(1, progress)), 3);
+};
@@ -1,4 +1,4 @@
-import { GameConfig } from './types';
+import { AiProfile, Difficulty, Formation, GameConfig, MatchRules, PlayerAttributes, PlayerRole, Rosters, Tactics, Team, TeamSetups, TieBreak } from './types';
 
 export const CONFIG: GameConfig = {
   pitchWidth: 800,
@@ -7,23 +7,187 @@ export const CONFIG: GameConfig = {
   matchDuration: 60, // 1 minute per quarter
 };
 
+// Pitch markings (px). The ad boards along the top and bottom sit outside the touchlines.
+export const PITCH = {
+  adBoardHeight: 24,
+  centreCircleRadius: 50,
+  penaltyAreaDepth: 100, // From the goal line
+  penaltyAreaWidth: 240,
+  penaltySpotDistance: 70, // From the goal line
+  goalAreaDepth: 35,
+  goalAreaWidth: 180,
+};
+
+// The simulation always advances in fixed ticks; rendering interpolates between them
+export const TICK_RATE = 60; // Ticks per second
+export const TICK_DT = 1 / TICK_RATE; // Seconds per tick
+export const MAX_FRAME_TIME = 0.25; // Longest frame (s) fed to the accumulator, avoids a spiral of death after a stall
+
+// All rates are per second and distances in pixels, so they hold at any refresh rate
 export const PHYSICS = {
-  friction: 0.96, // Ball friction
-  playerFriction: 0.85,
-  wallBounciness: 0.5,
-  kickStrength: 12,
-  dribbleDistance: 18,
-  maxBallSpeed: 18,
-  playerSpeed: 3.5,
-  sprintSpeed: 5.0,
+  friction: 2.45, // Ball velocity damping (1/s)
+  playerFriction: 9.75, // Player velocity damping (1/s)
+  playerAcceleration: 1800, // px/s², for an average player (see PlayerAttributes)
+  kickStrength: 720, // px/s, average shot power
+  minShotPower: 0.35, // Fraction of a full shot released on a tap
+  maxShotPower: 1.5, // Fraction of kickStrength for a fully charged shot (still capped at maxBallSpeed)
+  shotChargeTime: 0.8, // s holding shoot to reach full power
+  ballContactForce: 90, // px/s impulse when a player runs into the ball
+  dribbleDistance: 18, // px from the owner's centre to the carried ball
+  dribbleLooseness: 8, // Extra px the ball runs ahead at full sprint
+  controlSpeed: 500, // px/s fastest incoming ball a standing player can trap
+  possessionLockout: 0.5, // s a dispossessed player can't touch the ball
+  chargeStrength: 2, // Extra share of a body contact a player wins running into it at full sprint
+  shieldStrength: 2, // A dribbler holds their ground this many times more firmly in body contact
+  maxBallSpeed: 1080, // px/s
+  playerSpeed: 210, // px/s running, average pace
+  sprintSpeed: 300, // px/s sprinting, average pace
+  staminaDrain: 0.12, // Stamina used per second of sprinting (a full bar lasts ~8 s)
+  staminaRecovery: 0.03, // Stamina regained per second when not sprinting
+  breakRecovery: 0.5, // Stamina regained during the break between quarters
+  userKickCooldown: 0.17, // s
+  keeperKickCooldown: 0.33, // s
+  aiShotCooldown: 0.5, // s
+  switchHold: 1.0, // s auto-switch stays off after a manual player switch
+  passArrivalSpeed: 150, // px/s a pass still has when it reaches the receiver
+  slideSpeed: 420, // px/s at the start of a slide tackle
+  slideFriction: 3, // Slide velocity damping (1/s), much less than running
+  slideDuration: 0.35, // s on the ground sliding
+  slideRecovery: 0.45, // s getting back up afterwards, unable to move or touch the ball
+  slidePoke: 320, // px/s the ball is knocked on when a slide reaches it
+  setPieceWait: 0.8, // s before a free kick or penalty may be taken
+  kickoffMinWait: 2, // s after a goal before the kickoff, even if everyone is already in position
+  kickoffMaxWait: 4, // s at most the players get to walk back for a kickoff; stragglers are then put in position
+  wallDistance: 60, // px opponents must keep from a free kick, corner or goal kick
+  throwInDistance: 30, // px opponents must keep from a throw-in
+  maxThrowSpeed: 520, // px/s, a throw-in can't be hit like a kick
+  diveSpeed: 380, // px/s at the start of a dive
+  diveDuration: 0.3, // s in the air
+  diveRecovery: 0.5, // s getting back up
+  diveReach: 10, // Extra px of reach with arms outstretched
+  catchSpeed: 450, // px/s fastest ball a keeper can hold on to; anything harder is parried
+  keeperHoldTime: 0.8, // s the keeper holds a caught ball before throwing or punting it
+};
+
+// AI difficulty levels for the Red team (Blue's AI teammates always play at Normal)
+export const AI_PROFILES: { [key in Difficulty]: AiProfile } = {
+  [Difficulty.EASY]: {
+    label: '쉬움',
+    description: '천천히 반응하고, 먼 거리에서 무리하게 슛해요',
+    reactionDelay: 0.4,
+    activeRange: { defender: 160, midfielder: 180, forward: 200 },
+    shotVariance: 0.6,
+    shootingDistance: 330, // Long-range shots are easy to save, so this is a weakness
+    decisionNoise: 0.35,
+    keeperReach: 0,
+  },
+  [Difficulty.NORMAL]: {
+    label: '보통',
+    description: '처음 하는 친구에게 알맞아요',
+    reactionDelay: 0.15,
+    activeRange: { defender: 200, midfielder: 225, forward: 250 },
+    shotVariance: 0.2,
+    shootingDistance: 300,
+    decisionNoise: 0.15,
+    keeperReach: 4,
+  },
+  [Difficulty.HARD]: {
+    label: '어려움',
+    description: '빠르게 압박하고 멀리서도 슛해요',
+    reactionDelay: 0.08,
+    activeRange: { defender: 260, midfielder: 290, forward: 320 },
+    shotVariance: 0.1,
+    shootingDistance: 360,
+    decisionNoise: 0.08,
+    keeperReach: 8,
+  },
+  [Difficulty.LEGEND]: {
+    label: '전설',
+    description: '실수가 거의 없는 최강 팀',
+    reactionDelay: 0.03,
+    activeRange: { defender: 320, midfielder: 360, forward: 400 },
+    shotVariance: 0.04,
+    shootingDistance: 400,
+    decisionNoise: 0.03,
+    keeperReach: 12,
+  },
 };
 
+// Starting ratings by role
+export const ROLE_ATTRIBUTES: { [key in PlayerRole]: PlayerAttributes } = {
+  [PlayerRole.GOALKEEPER]: { pace: 0.4, acceleration: 0.5, shotPower: 0.6, accuracy: 0.5, tackling: 0.3, keeping: 0.5 },
+  [PlayerRole.DEFENDER]: { pace: 0.45, acceleration: 0.45, shotPower: 0.5, accuracy: 0.4, tackling: 0.75, keeping: 0 },
+  [PlayerRole.MIDFIELDER]: { pace: 0.55, acceleration: 0.6, shotPower: 0.55, accuracy: 0.65, tackling: 0.55, keeping: 0 },
+  [PlayerRole.FORWARD]: { pace: 0.7, acceleration: 0.65, shotPower: 0.7, accuracy: 0.6, tackling: 0.3, keeping: 0 },
+};
+
+const { GOALKEEPER: GK, DEFENDER: DEF, MIDFIELDER: MID, FORWARD: FWD } = PlayerRole;
+const keeper = { role: GK, x: 0.0625, y: 0.5 };
+
+// Preset formations (see FormationSlot for the coordinates). The first is the default.
+export const FORMATIONS: Formation[] = [
+  [keeper, { role: DEF, x: 0.34, y: 0.26 }, { role: DEF, x: 0.34, y: 0.74 }, { role: FWD, x: 0.59, y: 0.3 }, { role: FWD, x: 0.59, y: 0.7 }],
+  [keeper, { role: DEF, x: 0.3, y: 0.28 }, { role: DEF, x: 0.3, y: 0.72 }, { role: MID, x: 0.47, y: 0.5 }, { role: FWD, x: 0.64, y: 0.5 }],
+  [keeper, { role: DEF, x: 0.3, y: 0.5 }, { role: MID, x: 0.46, y: 0.26 }, { role: MID, x: 0.46, y: 0.74 }, { role: FWD, x: 0.64, y: 0.5 }],
+  [keeper, { role: DEF, x: 0.3, y: 0.22 }, { role: DEF, x: 0.3, y: 0.5 }, { role: DEF, x: 0.3, y: 0.78 }, { role: FWD, x: 0.62, y: 0.5 }],
+  [keeper, { role: DEF, x: 0.3, y: 0.5 }, { role: MID, x: 0.45, y: 0.5 }, { role: FWD, x: 0.6, y: 0.3 }, { role: FWD, x: 0.6, y: 0.7 }],
+];
+
+export const DEFAULT_TACTICS: Tactics = { lineHeight: 0.5, pressing: 0.5, width: 0.5 };
+
+export const DEFAULT_TEAM_SETUPS: TeamSetups = {
+  [Team.BLUE]: { formation: FORMATIONS[0], tactics: DEFAULT_TACTICS },
+  [Team.RED]: { formation: FORMATIONS[0], tactics: DEFAULT_TACTICS },
+};
+
+// Unnamed squad with the given shirt numbers, rated for the default formation's roles
+const defaultSquad = (numbers: number[]) =>
+  numbers.map((number, slot) => ({ name: '', number, attributes: { ...ROLE_ATTRIBUTES[FORMATIONS[0][slot].role] } }));
+
+export const DEFAULT_ROSTERS: Rosters = {
+  [Team.BLUE]: {
+    name: '블루팀',
+    shortCode: 'BLU',
+    primaryColor: '#3b82f6', // blue-500
+    secondaryColor: '#ffffff',
+    players: defaultSquad([1, 2, 3, 7, 9]),
+  },
+  [Team.RED]: {
+    name: '레드팀',
+    shortCode: 'RED',
+    primaryColor: '#ef4444', // red-500
+    secondaryColor: '#ffffff',
+    players: defaultSquad([1, 2, 3, 10, 11]),
+  },
+};
+
+export const DEFAULT_MATCH_RULES: MatchRules = { periods: 4, periodLength: CONFIG.matchDuration, tieBreak: TieBreak.NONE };
+
+// Kits handed out to tournament entries in order, chosen to tell apart on the pitch
+export const TOURNAMENT_KITS: { primary: string; secondary: string }[] = [
+  { primary: '#3b82f6', secondary: '#ffffff' }, // blue-500
+  { primary: '#ef4444', secondary: '#ffffff' }, // red-500
+  { primary: '#facc15', secondary: '#1f2937' }, // yellow-400
+  { primary: '#a855f7', secondary: '#ffffff' }, // purple-500
+  { primary: '#f97316', secondary: '#ffffff' }, // orange-500
+  { primary: '#14b8a6', secondary: '#ffffff' }, // teal-500
+  { primary: '#ec4899', secondary: '#ffffff' }, // pink-500
+  { primary: '#1f2937', secondary: '#facc15' }, // gray-800
+  { primary: '#f8fafc', secondary: '#1e3a8a' }, // slate-50
+  { primary: '#65a30d', secondary: '#ffffff' }, // lime-600
+  { primary: '#0ea5e9', secondary: '#1f2937' }, // sky-500
+  { primary: '#92400e', secondary: '#ffffff' }, // amber-800
+  { primary: '#6366f1', secondary: '#ffffff' }, // indigo-500
+  { primary: '#be123c', secondary: '#facc15' }, // rose-700
+  { primary: '#84cc16', secondary: '#1f2937' }, // lime-500
+  { primary: '#64748b', secondary: '#ffffff' }, // slate-500
+];
+
 export const COLORS = {
   pitch: '#34d399', // emerald-400 roughly
   pitchDark: '#10b981', // emerald-500
   lines: 'rgba(255, 255, 255, 0.6)',
-  blueTeam: '#3b82f6', // blue-500
-  redTeam: '#ef4444', // red-500
   ball: '#ffffff',
+  activeRing: { BLUE: '#fbbf24', RED: '#22d3ee' }, // amber-400 (P1), cyan-400 (P2)
   text: '#ffffff',
 };
\ No newline at end of file
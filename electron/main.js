@@ -8,6 +8,8 @@ function createWindow() {
     webPreferences: {
       nodeIntegration: true,
       contextIsolation: false,
+      // 게임패드 입력은 매 프레임 폴링하므로 창이 가려져도 타이머/rAF가 느려지지 않게 함
+      backgroundThrottling: false,
     },
     autoHideMenuBar: true, // 상단 메뉴바 숨김
     icon: path.join(__dirname, '../public/icon.png') // 아이콘 경로 (선택 사항)
@@ -0,0 +1,169 @@
+import { PHYSICS } from '../constants';
+import { AiProfile, Ball, GameConfig, MatchEvent, Player, PlayerRole, SetPieceKind, Team, TeamSetup, Vector2 } from '../types';
+import { formationSpot, pressingScale } from './formation';
+import { aimError, canAffordSprint, shotPower } from './attributes';
+import { chooseCarrierOption, markAssignment, markingSpot, supportSpot } from './decisions';
+import { canHandle, goalkeeperMove } from './goalkeeper';
+import { findPassTarget, leadPassVelocity } from './passing';
+import { inPenaltyArea } from './referee';
+import { startSlide } from './tackling';
+import { dist, normalize } from './vector';
+
+const SLIDE_RANGE = 60; // px from the ball at which a slide can still reach it
+const TACKLE_CHANCE = 0.05; // Per tick, once a tackle is on
+const BOX_TACKLE_CHANCE = 0.01; // Much more careful in their own penalty area
+
+// Slide at an opponent's ball if it is in reach and they can be met from the front or side;
+// going through the back of a dribbler is what gives fouls away
+const wantsToTackle = (p: Player, carrier: Player, ball: Ball, config: GameConfig, random: () => number) => {
+  if (p.cooldown > 0 || dist(p.pos, ball.pos) > SLIDE_RANGE || canHandle(carrier, config)) return false;
+  const toTackler = { x: p.pos.x - carrier.pos.x, y: p.pos.y - carrier.pos.y };
+  const d = Math.sqrt(toTackler.x**2 + toTackler.y**2) || 1;
+  const facingTackler = (carrier.facing.x * toTackler.x + carrier.facing.y * toTackler.y) / d;
+  if (facingTackler < -0.3) return false;
+  const chance = inPenaltyArea(p.pos, p.team, config) ? BOX_TACKLE_CHANCE : TACKLE_CHANCE;
+  // Good tacklers go to ground more readily
+  return random() < chance * (0.5 + p.attributes.tackling);
+};
+
+const LOOSE_BALL_TIME = 1.0; // s after a team's own kick or pass that a loose ball still counts as theirs
+const BALL_LOOKAHEAD = 0.4; // s ahead of the ball's travel a chaser aims for
+const ARRIVE_DISTANCE = 10; // px from a target spot at which a player stops
+const SPRINT_DISTANCE = 60; // px; AI players sprint to the ball from further than this, or twice this to a support spot
+const SHOT_AIM = 0.3; // Fraction of the goal width off centre that open-play shots aim for
+const PASS_SPREAD = 0.5; // Passes stray this fraction of the profile's shot variance
+
+const moveTo = (p: Player, spot: Vector2): Vector2 => {
+  const d = dist(p.pos, spot);
+  return d > ARRIVE_DISTANCE ? { x: (spot.x - p.pos.x) / d, y: (spot.y - p.pos.y) / d } : { x: 0, y: 0 };
+};
+
+// How far from the ball a player will go after it, wider or narrower with the team's pressing
+const activeRangeFor = (p: Player, profile: AiProfile, setup: TeamSetup) => {
+  let activeRange = 0;
+  if (p.role === PlayerRole.DEFENDER) activeRange = profile.activeRange.defender;
+  if (p.role === PlayerRole.MIDFIELDER) activeRange = profile.activeRange.midfielder;
+  if (p.role === PlayerRole.FORWARD) activeRange = profile.activeRange.forward;
+  return activeRange * pressingScale(setup.tactics);
+};
+
+// The team's outfield player nearest where they think the ball is going; only they go for it.
+// Anyone who can't touch it yet (say, the player who just passed it) leaves it to the others.
+const nearestToBall = (team: Team, players: Player[], target: Vector2) =>
+  players
+    .filter(pl => pl.team === team && pl.role !== PlayerRole.GOALKEEPER && pl.cooldown === 0)
+    .reduce<Player | undefined>((best, pl) => !best || dist(pl.pos, target) < dist(best.pos, target) ? pl : best, undefined);
+
+// On the ball: shoot, pass or dribble, whichever the decision layer rates best
+const carrierMove = (p: Player, players: Player[], ball: Ball, profile: AiProfile, config: GameConfig, random: () => number, events: MatchEvent[]): Vector2 => {
+  const option = chooseCarrierOption(p, players, profile, config, random);
+  if (option.kind === 'dribble') return option.direction;
+
+  if (option.kind === 'pass') {
+    const vel = leadPassVelocity(ball.pos, option.target);
+    const spread = aimError(p, profile.shotVariance * PASS_SPREAD, random);
+    ball.vel.x = vel.x * Math.cos(spread) - vel.y * Math.sin(spread);
+    ball.vel.y = vel.x * Math.sin(spread) + vel.y * Math.cos(spread);
+    ball.ownerId = null;
+    p.cooldown = PHYSICS.aiShotCooldown;
+    events.push({ type: 'pass', playerId: p.id, targetId: option.target.id });
+    return { x: 0, y: 0 };
+  }
+
+  // Aim inside the post on whichever side the keeper is further from
+  const goalX = p.team === Team.BLUE ? config.pitchWidth : 0;
+  const keeper = players.find(k => k.team !== p.team && k.role === PlayerRole.GOALKEEPER);
+  const side = keeper && keeper.pos.y > config.pitchHeight/2 ? -1 : 1;
+  const aimY = config.pitchHeight/2 + side * config.goalWidth * SHOT_AIM;
+  const gAngle = Math.atan2(aimY - p.pos.y, goalX - p.pos.x);
+  const variance = aimError(p, profile.shotVariance, random);
+  ball.vel.x = Math.cos(gAngle + variance) * (shotPower(p) * 1.1);
+  ball.vel.y = Math.sin(gAngle + variance) * (shotPower(p) * 1.1);
+  ball.ownerId = null;
+  p.cooldown = PHYSICS.aiShotCooldown;
+  events.push({ type: 'kick', playerId: p.id });
+  return { x: 0, y: 0 };
+};
+
+// Field players. On the ball they weigh shooting, passing and dribbling. Off it, the one
+// nearest the ball goes for it if it's inside their range; the rest find space to receive
+// a pass when their team has it, and otherwise mark an opponent or hold their zone.
+// They steer by `ballView`, where they think the ball is; touching it uses the real one.
+const fieldPlayerMove = (p: Player, players: Player[], ball: Ball, ballView: Vector2, profile: AiProfile, setup: TeamSetup, config: GameConfig, random: () => number, events: MatchEvent[]): Vector2 => {
+  if (ball.ownerId === p.id) return carrierMove(p, players, ball, profile, config, random, events);
+
+  const carrier = ball.ownerId !== null ? players.find(pl => pl.id === ball.ownerId) : undefined;
+  const lastTouch = ball.lastTouchId !== null ? players.find(pl => pl.id === ball.lastTouchId) : undefined;
+  const inPossession = carrier ? carrier.team === p.team : lastTouch?.team === p.team && ball.sinceKick < LOOSE_BALL_TIME;
+
+  // Go to meet the ball rather than follow it
+  const ballSoon = { x: ballView.x + ball.vel.x * BALL_LOOKAHEAD, y: ballView.y + ball.vel.y * BALL_LOOKAHEAD };
+  // Nobody goes for our ball, or one in the opposing keeper's hands; they'd only stand on the release
+  const chaser = carrier && (carrier.team === p.team || canHandle(carrier, config)) ? undefined : nearestToBall(p.team, players, ballSoon);
+  if (chaser?.id === p.id && dist(p.pos, ballView) < activeRangeFor(p, profile, setup)) {
+    const toBall = normalize({ x: ballSoon.x - p.pos.x, y: ballSoon.y - p.pos.y });
+    if (carrier && wantsToTackle(p, carrier, ball, config, random)) {
+      startSlide(p, toBall, events);
+      return { x: 0, y: 0 };
+    }
+    p.sprinting = canAffordSprint(p) && dist(p.pos, ballSoon) > SPRINT_DISTANCE;
+    return toBall;
+  }
+
+  if (inPossession) {
+    const spot = supportSpot(p, carrier?.pos ?? ballView, players, setup, ballView, config);
+    p.sprinting = canAffordSprint(p) && dist(p.pos, spot) > SPRINT_DISTANCE * 2;
+    return moveTo(p, spot);
+  }
+
+  const marked = markAssignment(p, players, setup, ballView, carrier?.id ?? null, chaser?.id ?? null, config);
+  return moveTo(p, marked ? markingSpot(marked, p.team, ballView, config) : formationSpot(p, setup, ballView, config));
+};
+
+/**
+ * Decides where an AI-driven player wants to move this tick, playing to `profile` and the team's `setup`.
+ * May kick or pass the ball as a side effect (mutates `ball`, pushes a 'kick' or 'pass' event).
+ * All randomness must come from `random` so matches stay reproducible.
+ */
+export const aiMove = (p: Player, players: Player[], ball: Ball, ballView: Vector2, profile: AiProfile, setup: TeamSetup, config: GameConfig, random: () => number, events: MatchEvent[]): Vector2 => {
+  if (p.role === PlayerRole.GOALKEEPER) return goalkeeperMove(p, players, ball, profile, config, random, events);
+  return fieldPlayerMove(p, players, ball, ballView, profile, setup, config, random, events);
+};
+
+/**
+ * AI taker at a restart. Penalties and free kicks in range are shot at a corner of
+ * the goal; corners are crossed to whoever is nearest the penalty spot; everything
+ * else goes to the best-placed teammate, or is played long upfield if nobody is on.
+ */
+export const aiTakeSetPiece = (p: Player, kind: SetPieceKind, players: Player[], ball: Ball, profile: AiProfile, config: GameConfig, random: () => number, events: MatchEvent[]) => {
+  const h = config.pitchHeight;
+  const isBlue = p.team === Team.BLUE;
+  const goalX = isBlue ? config.pitchWidth : 0;
+  p.cooldown = PHYSICS.aiShotCooldown;
+
+  const shootAtGoal = kind === 'penalty' || (kind === 'freeKick' && Math.abs(goalX - p.pos.x) < profile.shootingDistance);
+  if (shootAtGoal) {
+    const side = random() < 0.5 ? -1 : 1;
+    const aimY = h/2 + side * config.goalWidth * (0.2 + random() * 0.2);
+    const angle = Math.atan2(aimY - ball.pos.y, goalX - ball.pos.x) + aimError(p, profile.shotVariance, random);
+    ball.vel.x = Math.cos(angle) * shotPower(p) * 1.1;
+    ball.vel.y = Math.sin(angle) * shotPower(p) * 1.1;
+    events.push({ type: 'kick', playerId: p.id });
+    return;
+  }
+
+  // Pass along the way the taker was lined up to face (into the box from a corner,
+  // into the pitch at a throw-in, upfield otherwise)
+  const receiver = findPassTarget(p, players, p.facing);
+  if (receiver) {
+    ball.vel = leadPassVelocity(ball.pos, receiver);
+    events.push({ type: 'pass', playerId: p.id, targetId: receiver.id });
+    return;
+  }
+
+  const variance = (random() - 0.5) * 0.4;
+  const angle = Math.atan2(p.facing.y, p.facing.x) + variance;
+  ball.vel.x = Math.cos(angle) * shotPower(p) * 0.8;
+  ball.vel.y = Math.sin(angle) * shotPower(p) * 0.8;
+  events.push({ type: 'kick', playerId: p.id });
+};
@@ -0,0 +1,47 @@
+import { PHYSICS, TICK_DT } from '../constants';
+import { Player } from '../types';
+
+// What the 0..1 ratings in PlayerAttributes do. Each one scales a PHYSICS value
+// around the average player (0.5), so an average squad plays as the constants say.
+
+const TIRED_STAMINA = 0.3; // Below this much stamina a player starts to slow...
+const TIRED_SLOWDOWN = 0.2; // ...by up to this fraction of their speed when it's all gone
+const SPRINT_RESERVE = 0.35; // AI players keep this much stamina back rather than sprint
+
+// Multiplier of `spread` either side of 1 for a rating of 0..1
+const scale = (rating: number, spread: number) => 1 + (rating - 0.5) * spread;
+
+/** Fastest the player can run right now, sprinting or not, slowed when they're tired. */
+export const topSpeed = (p: Player) => {
+  const base = p.sprinting ? PHYSICS.sprintSpeed : PHYSICS.playerSpeed;
+  const tiredness = Math.max(0, 1 - p.stamina / TIRED_STAMINA);
+  return base * scale(p.attributes.pace, 0.3) * (1 - TIRED_SLOWDOWN * tiredness);
+};
+
+export const acceleration = (p: Player) => PHYSICS.playerAcceleration * scale(p.attributes.acceleration, 0.6);
+
+/** Speed (px/s) of the player's normal full shot. */
+export const shotPower = (p: Player) => PHYSICS.kickStrength * scale(p.attributes.shotPower, 0.3);
+
+/** Random aim error (radians) on a kick whose average-player spread is `spread`. */
+export const aimError = (p: Player, spread: number, random: () => number) =>
+  (random() - 0.5) * spread * scale(1 - p.attributes.accuracy, 1.2);
+
+/** Multiplies how reckless a slide tackle looks to the referee. */
+export const tackleRisk = (p: Player) => scale(1 - p.attributes.tackling, 0.6);
+
+/** Extra px a goalkeeper reaches on top of their difficulty's keeperReach. */
+export const keepingReach = (p: Player) => (p.attributes.keeping - 0.5) * 16;
+
+export const catchSpeed = (p: Player) => PHYSICS.catchSpeed * scale(p.attributes.keeping, 0.4);
+
+export const diveSpeed = (p: Player) => PHYSICS.diveSpeed * scale(p.attributes.keeping, 0.3);
+
+/** Whether an AI player can afford to sprint. */
+export const canAffordSprint = (p: Player) => p.stamina > SPRINT_RESERVE;
+
+/** Sprinting drains stamina; anything else slowly brings it back. Call once per tick. */
+export const updateStamina = (p: Player) => {
+  if (p.sprinting) p.stamina = Math.max(0, p.stamina - PHYSICS.staminaDrain * TICK_DT);
+  else p.stamina = Math.min(1, p.stamina + PHYSICS.staminaRecovery * TICK_DT);
+};
@@ -0,0 +1,66 @@
+import { PHYSICS } from '../constants';
+import { Ball, GameConfig, Player, Vector2 } from '../types';
+
+// Body contact between players. Once everyone has moved, players who overlap are pushed
+// apart along the line between their centres and lose the speed they were closing at.
+// How far each gives way follows its share of the pair's weight: its mass, more when it's
+// running into the other (a shoulder charge), and more again for a dribbler shielding the
+// ball. Several relaxation passes spread even all ten players chasing one ball into a ring
+// rather than a stack.
+
+const PASSES = 4; // Relaxation passes per tick
+
+/** Keeps a player's whole body on the canvas. */
+export const keepInBounds = (p: Player, config: GameConfig) => {
+  p.pos.x = Math.max(p.radius, Math.min(config.pitchWidth - p.radius, p.pos.x));
+  p.pos.y = Math.max(p.radius, Math.min(config.pitchHeight - p.radius, p.pos.y));
+};
+
+// How firmly `p` holds its ground against someone in direction `towards` (a unit vector)
+const weight = (p: Player, towards: Vector2, ball: Ball) => {
+  const charging = Math.max(0, p.vel.x * towards.x + p.vel.y * towards.y) / PHYSICS.sprintSpeed;
+  const shielding = p.id === ball.ownerId ? PHYSICS.shieldStrength : 1;
+  return p.mass * (1 + PHYSICS.chargeStrength * charging) * shielding;
+};
+
+/** Separates overlapping players, mutating their positions and velocities; nobody is pushed off the canvas. */
+export const resolvePlayerContacts = (players: Player[], ball: Ball, config: GameConfig) => {
+  for (let pass = 0; pass < PASSES; pass++) {
+    let touching = false;
+    for (let i = 0; i < players.length; i++) {
+      for (let j = i + 1; j < players.length; j++) {
+        const a = players[i];
+        const b = players[j];
+        const dx = b.pos.x - a.pos.x;
+        const dy = b.pos.y - a.pos.y;
+        const d = Math.sqrt(dx * dx + dy * dy);
+        const overlap = a.radius + b.radius - d;
+        if (overlap <= 0) continue;
+        touching = true;
+
+        // From a to b; two players on exactly the same spot are split sideways, always the same way
+        const normal = d > 0 ? { x: dx / d, y: dy / d } : { x: 1, y: 0 };
+        const wa = weight(a, normal, ball);
+        const wb = weight(b, { x: -normal.x, y: -normal.y }, ball);
+        const shareA = wb / (wa + wb); // Of the push, a takes this much
+        const shareB = 1 - shareA;
+
+        a.pos.x -= normal.x * overlap * shareA;
+        a.pos.y -= normal.y * overlap * shareA;
+        b.pos.x += normal.x * overlap * shareB;
+        b.pos.y += normal.y * overlap * shareB;
+
+        // No bounce: whatever speed they met at is absorbed, split the same way
+        const closing = (a.vel.x - b.vel.x) * normal.x + (a.vel.y - b.vel.y) * normal.y;
+        if (closing > 0) {
+          a.vel.x -= normal.x * closing * shareA;
+          a.vel.y -= normal.y * closing * shareA;
+          b.vel.x += normal.x * closing * shareB;
+          b.vel.y += normal.y * closing * shareB;
+        }
+      }
+    }
+    players.forEach(p => keepInBounds(p, config));
+    if (!touching) return;
+  }
+};
@@ -0,0 +1,187 @@
+import { PITCH } from '../constants';
+import { AiProfile, GameConfig, Player, PlayerRole, Team, TeamSetup, Vector2 } from '../types';
+import { formationSpot } from './formation';
+import { dist, distToSegment, normalize } from './vector';
+
+// Utility scoring for the field-player AI. Ratings are on a rough 0..1 scale so
+// they can be multiplied together and compared across options; ai.ts acts on
+// whatever scores best.
+
+const LANE_WIDTH = 50; // px an opponent has to be from the ball's path for it to count as open
+const OPEN_SPACE = 120; // px to the nearest opponent at which a player counts as unmarked
+const SUPPORT_RANGE = { min: 90, max: 240 }; // px from the carrier where a teammate is a useful outlet
+const PASS_RANGE = { min: 60, max: 450 }; // px; anything shorter or longer isn't worth trying
+const SHOT_RANGE = 400; // px from goal at which a shot is no better than a hopeful punt
+const DRIBBLE_LOOKAHEAD = 80; // px ahead a dribbling direction is judged at
+const DRIBBLE_ANGLES = [-1.2, -0.6, 0, 0.6, 1.2]; // Radians off the line to goal
+const PASS_MARGIN = 0.08; // A pass has to beat keeping the ball by this much, so carriers don't ping it about
+const MARK_RANGE = 200; // px from a defender's spot beyond which they hold their zone instead of following a man
+const MARK_DISTANCE = 30; // px goal-side of the opponent being marked
+const LANE_CUT = 0.25; // Fraction of the way a marker leans towards the ball to cut the pass to their man...
+const MAX_LEAN = 50; // ...up to this many px
+const TEAMMATE_SPACING = 70; // px; support spots closer than this to a teammate are crowded
+
+// Off-ball run candidates around a player's formation spot: [forward, across] in px
+const RUN_OFFSETS: [number, number][] = [-60, 0, 60, 120].flatMap(dx => [-80, 0, 80].map(dy => [dx, dy] as [number, number]));
+
+const opponentsOf = (p: Player, players: Player[]) => players.filter(o => o.team !== p.team);
+
+const outfield = (players: Player[]) => players.filter(o => o.role !== PlayerRole.GOALKEEPER);
+
+const attackDir = (team: Team) => team === Team.BLUE ? 1 : -1;
+
+/** 0 with an opponent right on the path from `from` to `to`, 1 with none within LANE_WIDTH of it. */
+export const laneOpenness = (from: Vector2, to: Vector2, opponents: Player[]) => {
+  // Start the lane a stride out, so a presser alongside the ball doesn't shut every lane at once
+  const dir = normalize({ x: to.x - from.x, y: to.y - from.y });
+  const start = { x: from.x + dir.x * 20, y: from.y + dir.y * 20 };
+  const closest = Math.min(Infinity, ...opponents.map(o => distToSegment(o.pos, start, to) - o.radius));
+  // Squared, because a defender a few px off the line still has a good chance of stepping across
+  return Math.max(0, Math.min(1, closest / LANE_WIDTH)) ** 2;
+};
+
+/** 0 with an opponent on top of `pos`, 1 with none within OPEN_SPACE. */
+export const openness = (pos: Vector2, opponents: Player[]) =>
+  Math.min(1, Math.min(Infinity, ...opponents.map(o => dist(pos, o.pos))) / OPEN_SPACE);
+
+// 0 at `team`'s own goal line, 1 at the opponents'
+const progress = (pos: Vector2, team: Team, config: GameConfig) =>
+  team === Team.BLUE ? pos.x / config.pitchWidth : 1 - pos.x / config.pitchWidth;
+
+// How much having the ball at `pos` is worth: something anywhere, a lot near goal
+const positionValue = (pos: Vector2, team: Team, config: GameConfig) => 0.3 + 0.7 * progress(pos, team, config);
+
+const onPitch = (pos: Vector2, config: GameConfig): Vector2 => {
+  const margin = PITCH.adBoardHeight + 16;
+  return {
+    x: Math.max(30, Math.min(config.pitchWidth - 30, pos.x)),
+    y: Math.max(margin, Math.min(config.pitchHeight - margin, pos.y)),
+  };
+};
+
+export type CarrierOption =
+  | { kind: 'shoot' }
+  | { kind: 'pass'; target: Player }
+  | { kind: 'dribble'; direction: Vector2 };
+
+/**
+ * The ball carrier's choice: shoot if in range with a sight of goal, pass to the
+ * best-placed teammate with an open lane, or dribble the way with most space.
+ * `profile.decisionNoise` blurs the scores, so weaker AIs misjudge them.
+ */
+export const chooseCarrierOption = (p: Player, players: Player[], profile: AiProfile, config: GameConfig, random: () => number): CarrierOption => {
+  const opponents = opponentsOf(p, players);
+  const goal = { x: p.team === Team.BLUE ? config.pitchWidth : 0, y: config.pitchHeight / 2 };
+  const noise = () => (random() - 0.5) * profile.decisionNoise;
+  // Pressure makes every option on the ball worse, which is what pushes a closed-down carrier to pass
+  const pressure = 0.5 + 0.5 * openness(p.pos, opponents);
+
+  let best: CarrierOption = { kind: 'dribble', direction: normalize({ x: goal.x - p.pos.x, y: goal.y - p.pos.y }) };
+  let bestScore = -Infinity;
+
+  const toGoal = Math.atan2(goal.y - p.pos.y, goal.x - p.pos.x);
+  DRIBBLE_ANGLES.forEach(offset => {
+    const direction = { x: Math.cos(toGoal + offset), y: Math.sin(toGoal + offset) };
+    const ahead = onPitch({ x: p.pos.x + direction.x * DRIBBLE_LOOKAHEAD, y: p.pos.y + direction.y * DRIBBLE_LOOKAHEAD }, config);
+    const score = positionValue(ahead, p.team, config) * openness(ahead, opponents) * pressure + noise();
+    if (score > bestScore) {
+      bestScore = score;
+      best = { kind: 'dribble', direction };
+    }
+  });
+
+  const distToGoal = Math.abs(goal.x - p.pos.x);
+  if (distToGoal < profile.shootingDistance && p.cooldown === 0) {
+    // The keeper is always in the way, so only outfield players count as blocking the shot
+    const closeness = Math.max(0, 1 - distToGoal / SHOT_RANGE);
+    const score = (0.5 + 0.6 * closeness) * (0.4 + 0.6 * laneOpenness(p.pos, goal, outfield(opponents))) + noise();
+    if (score > bestScore) {
+      bestScore = score;
+      best = { kind: 'shoot' };
+    }
+  }
+
+  if (p.cooldown === 0) {
+    bestScore += PASS_MARGIN;
+    outfield(players).forEach(mate => {
+      if (mate.team !== p.team || mate.id === p.id) return;
+      const d = dist(p.pos, mate.pos);
+      if (d < PASS_RANGE.min || d > PASS_RANGE.max) return;
+      const score = positionValue(mate.pos, p.team, config) * laneOpenness(p.pos, mate.pos, opponents) *
+        (0.4 + 0.6 * openness(mate.pos, opponents)) * (1 - d / (PASS_RANGE.max * 3)) + noise();
+      if (score > bestScore) {
+        bestScore = score;
+        best = { kind: 'pass', target: mate };
+      }
+    });
+  }
+
+  return best;
+};
+
+/**
+ * Where an off-ball player goes while their team has the ball: somewhere near their
+ * formation spot, or a run beyond it, that is open, can be passed to from `carrier`,
+ * isn't crowding a teammate and gets the team up the pitch.
+ */
+export const supportSpot = (p: Player, carrier: Vector2, players: Player[], setup: TeamSetup, ballView: Vector2, config: GameConfig): Vector2 => {
+  const opponents = opponentsOf(p, players);
+  const mates = players.filter(m => m.team === p.team && m.id !== p.id);
+  const home = formationSpot(p, setup, ballView, config);
+  const dir = attackDir(p.team);
+
+  let best = home;
+  let bestScore = -Infinity;
+  RUN_OFFSETS.forEach(([forward, across]) => {
+    const spot = onPitch({ x: home.x + forward * dir, y: home.y + across }, config);
+    const d = dist(spot, carrier);
+    const inSupportRange = d >= SUPPORT_RANGE.min && d <= SUPPORT_RANGE.max ? 1 : 0;
+    const crowded = mates.some(m => dist(m.pos, spot) < TEAMMATE_SPACING) ? 1 : 0;
+    const score =
+      0.35 * openness(spot, opponents) +
+      0.35 * laneOpenness(carrier, spot, opponents) +
+      0.25 * progress(spot, p.team, config) +
+      0.1 * inSupportRange -
+      0.3 * crowded -
+      // Favouring spots near where the player already is keeps them from flip-flopping between two
+      0.1 * dist(spot, p.pos) / 100;
+    if (score > bestScore) {
+      bestScore = score;
+      best = spot;
+    }
+  });
+  return best;
+};
+
+/**
+ * The opponent `p` should pick up while defending, or null to hold their zone.
+ * Outfield defenders, in formation order, each take the nearest opponent to their
+ * formation spot that nobody has taken yet; the ball carrier and `chaserId`, who
+ * is going for the ball, are left out. Everyone works it out the same way, so no
+ * two players end up on the same man.
+ */
+export const markAssignment = (p: Player, players: Player[], setup: TeamSetup, ballView: Vector2, carrierId: number | null, chaserId: number | null, config: GameConfig): Player | null => {
+  const defenders = outfield(players)
+    .filter(m => m.team === p.team && m.id !== chaserId)
+    .sort((a, b) => a.slot - b.slot);
+  const free = outfield(opponentsOf(p, players)).filter(o => o.id !== carrierId);
+
+  for (const defender of defenders) {
+    const spot = formationSpot(defender, setup, ballView, config);
+    const nearest = free.reduce<Player | null>((best, o) => !best || dist(o.pos, spot) < dist(best.pos, spot) ? o : best, null);
+    if (!nearest) return null;
+    free.splice(free.indexOf(nearest), 1);
+    if (defender.id === p.id) return dist(nearest.pos, spot) < MARK_RANGE ? nearest : null;
+  }
+  return null;
+};
+
+/** Goal-side of `opponent`, leaning towards the ball to get in the way of a pass to them. */
+export const markingSpot = (opponent: Player, team: Team, ballView: Vector2, config: GameConfig): Vector2 => {
+  const ownGoal = { x: team === Team.BLUE ? 0 : config.pitchWidth, y: config.pitchHeight / 2 };
+  const toGoal = normalize({ x: ownGoal.x - opponent.pos.x, y: ownGoal.y - opponent.pos.y });
+  const goalSide = { x: opponent.pos.x + toGoal.x * MARK_DISTANCE, y: opponent.pos.y + toGoal.y * MARK_DISTANCE };
+  const lean = Math.min(MAX_LEAN, dist(goalSide, ballView) * LANE_CUT);
+  const toBall = normalize({ x: ballView.x - goalSide.x, y: ballView.y - goalSide.y });
+  return onPitch({ x: goalSide.x + toBall.x * lean, y: goalSide.y + toBall.y * lean }, config);
+};
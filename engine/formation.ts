@@ -0,0 +1,77 @@
+import { PITCH } from '../constants';
+import { Formation, FormationSlot, GameConfig, Player, PlayerRole, Tactics, Team, TeamSetup, TeamSetups, Vector2 } from '../types';
+
+// Formations are written for a team attacking left to right (see FormationSlot);
+// Red's are mirrored end to end when they are put on the pitch.
+
+const FOLLOW_BASE = 0.2; // Pitch lengths the shape slides per pitch length the ball moves...
+const FOLLOW_DEPTH = 0.4; // ...plus this much more per unit of depth, so forwards push on further
+const BALL_Y_TRACKING = 0.3; // Fraction of the ball's distance from the middle the shape drifts sideways
+const LINE_SHIFT = 0.2; // Pitch lengths between the lowest and the highest defensive line
+const KICKOFF_DEPTH = 0.65; // Outfield players start this fraction of their slot's distance from their goal...
+const KICKOFF_NARROWING = 0.7; // ...closer together...
+const KICKOFF_MAX_X = 0.42; // ...and in their own half, clear of the centre circle
+
+// Depths (x) at which a dragged slot becomes a midfielder, then a forward
+const MIDFIELD_DEPTH = 0.4;
+const FORWARD_DEPTH = 0.55;
+
+export const roleForDepth = (x: number): PlayerRole =>
+  x < MIDFIELD_DEPTH ? PlayerRole.DEFENDER : x < FORWARD_DEPTH ? PlayerRole.MIDFIELDER : PlayerRole.FORWARD;
+
+/** Outfield lines from back to front, e.g. "1-2-1-1"; the leading 1 is the goalkeeper. */
+export const formationName = (formation: Formation): string => {
+  const lines = [PlayerRole.DEFENDER, PlayerRole.MIDFIELDER, PlayerRole.FORWARD]
+    .map(role => formation.filter(slot => slot.role === role).length)
+    .filter(count => count > 0);
+  return ['1', ...lines].join('-');
+};
+
+const toPitch = (x: number, y: number, team: Team, config: GameConfig): Vector2 => ({
+  x: (team === Team.BLUE ? x : 1 - x) * config.pitchWidth,
+  y: y * config.pitchHeight,
+});
+
+const lineShift = (tactics: Tactics) => (tactics.lineHeight - 0.5) * LINE_SHIFT;
+
+// Width stretches or squeezes the shape about the middle of the pitch, 0.5x to 1.5x
+const spreadY = (y: number, tactics: Tactics) => 0.5 + (y - 0.5) * (0.5 + tactics.width);
+
+/** How much further or closer than their profile's range players go after the ball: 0.7x to 1.3x. */
+export const pressingScale = (tactics: Tactics) => 0.7 + 0.6 * tactics.pressing;
+
+/** Where the player in `slot` lines up for a kickoff. */
+export const kickoffSpot = (slot: FormationSlot, team: Team, tactics: Tactics, config: GameConfig): Vector2 => {
+  if (slot.role === PlayerRole.GOALKEEPER) return toPitch(slot.x, slot.y, team, config);
+  const x = Math.min(KICKOFF_MAX_X, (slot.x + lineShift(tactics)) * KICKOFF_DEPTH);
+  const y = 0.5 + (spreadY(slot.y, tactics) - 0.5) * KICKOFF_NARROWING;
+  return toPitch(x, y, team, config);
+};
+
+/**
+ * Where an outfield player holds position while not chasing the ball: their slot,
+ * moved by the team's tactics and slid up, down and across with where they think the ball is.
+ */
+export const formationSpot = (p: Player, setup: TeamSetup, ballView: Vector2, config: GameConfig): Vector2 => {
+  const slot = setup.formation[p.slot];
+  const { tactics } = setup;
+  // 0 with the ball at this team's goal, 1 at the opponents'
+  const ballDepth = p.team === Team.BLUE ? ballView.x / config.pitchWidth : 1 - ballView.x / config.pitchWidth;
+
+  const x = slot.x + lineShift(tactics) + (ballDepth - 0.5) * (FOLLOW_BASE + FOLLOW_DEPTH * slot.x);
+  const y = spreadY(slot.y, tactics) + (ballView.y / config.pitchHeight - 0.5) * BALL_Y_TRACKING;
+  const margin = (PITCH.adBoardHeight + p.radius) / config.pitchHeight;
+  return toPitch(x, Math.max(margin, Math.min(1 - margin, y)), p.team, config);
+};
+
+const isUnit = (value: any) => typeof value === 'number' && value >= 0 && value <= 1;
+
+/** Checks formations and tactics read back from a replay file or saved settings. */
+export const isTeamSetups = (value: any): value is TeamSetups =>
+  [Team.BLUE, Team.RED].every(team => {
+    const setup = value?.[team];
+    return Array.isArray(setup?.formation) && setup.formation.length === 5 &&
+      setup.formation.every((slot: any) => Object.values(PlayerRole).includes(slot?.role) && isUnit(slot.x) && isUnit(slot.y)) &&
+      setup.formation[0].role === PlayerRole.GOALKEEPER &&
+      isUnit(setup.tactics?.lineHeight) && isUnit(setup.tactics?.pressing) && isUnit(setup.tactics?.width);
+  });
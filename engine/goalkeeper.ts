@@ -0,0 +1,165 @@
+import { AI_PROFILES, PHYSICS } from '../constants';
+import { AiProfile, Ball, Difficulty, GameConfig, MatchEvent, Player, PlayerRole, Team, Vector2 } from '../types';
+import { catchSpeed, diveSpeed, keepingReach, shotPower, topSpeed } from './attributes';
+import { leadPassVelocity } from './passing';
+import { inGoalMouth, inPenaltyArea } from './referee';
+import { dist, length, normalize } from './vector';
+
+// Goalkeepers stand on the angle between the ball and the middle of their goal,
+// read shots by projecting the ball's path (friction included) to their line, and
+// dive for what they can't get to on foot. In their own area they catch what they
+// can hold, parry the rest, and throw or punt a caught ball back into play.
+
+const KEEPER_DEPTH = 35; // px from the middle of the goal, towards the ball
+const DIVE_WINDOW = 0.4; // s before the ball arrives at which a dive is worth it
+const RUN_START = 0.1; // s a standing keeper loses getting up to speed
+const CLAIM_RANGE = 80; // px within which a keeper comes off the line for a loose ball in the area
+const THROW_RANGE = 260; // px to the furthest teammate worth throwing to
+const MARKED_DISTANCE = 60; // px; a teammate with an opponent this close isn't thrown to
+const THROW_CHANCE = 0.7; // Otherwise the keeper punts it long
+
+const ownGoal = (p: Player, config: GameConfig): Vector2 => ({
+  x: p.team === Team.BLUE ? 0 : config.pitchWidth,
+  y: config.pitchHeight / 2,
+});
+
+/** In the air and still moving, as opposed to getting back up. */
+export const isDiving = (p: Player) => p.diveTime > PHYSICS.diveRecovery;
+
+/** A goalkeeper inside their own area, where they may use their hands. */
+export const canHandle = (p: Player, config: GameConfig) =>
+  p.role === PlayerRole.GOALKEEPER && inPenaltyArea(p.pos, p.team, config);
+
+/**
+ * Where and how soon a loose ball will cross the vertical line x = `lineX`, or null
+ * if it is moving away or friction stops it short.
+ */
+export const projectToLine = (ball: Ball, lineX: number): { y: number; time: number } | null => {
+  const dx = lineX - ball.pos.x;
+  if (ball.vel.x === 0 || Math.sign(dx) !== Math.sign(ball.vel.x)) return null;
+  // With drag k, a ball moving at v covers v/k * (1 - e^(-kt)) in time t
+  const remaining = 1 - (dx * PHYSICS.friction) / ball.vel.x;
+  if (remaining <= 0) return null;
+  return { y: ball.pos.y + (ball.vel.y / ball.vel.x) * dx, time: -Math.log(remaining) / PHYSICS.friction };
+};
+
+/** Ball last struck by an opponent of `keeper` and heading between their posts. */
+export const isShotOnTarget = (ball: Ball, keeper: Player, players: Player[], config: GameConfig) => {
+  const shooter = players.find(p => p.id === ball.lastTouchId);
+  if (ball.ownerId !== null || !shooter || shooter.team === keeper.team) return false;
+  const crossing = projectToLine(ball, ownGoal(keeper, config).x);
+  return !!crossing && inGoalMouth(crossing.y, config);
+};
+
+const dive = (p: Player, dirY: number) => {
+  p.vel = { x: 0, y: dirY * diveSpeed(p) };
+  p.diveTime = PHYSICS.diveDuration + PHYSICS.diveRecovery;
+};
+
+// Throw to a free teammate nearby, or punt towards the most advanced one
+const distribute = (p: Player, players: Player[], ball: Ball, random: () => number, events: MatchEvent[]) => {
+  const attackDir = p.team === Team.BLUE ? 1 : -1;
+  const mates = players.filter(m => m.team === p.team && m.id !== p.id);
+  const isMarked = (m: Player) => players.some(o => o.team !== p.team && dist(o.pos, m.pos) < MARKED_DISTANCE);
+  const open = mates
+    .filter(m => dist(m.pos, p.pos) < THROW_RANGE && !isMarked(m))
+    .sort((a, b) => dist(a.pos, p.pos) - dist(b.pos, p.pos));
+
+  ball.ownerId = null;
+  p.cooldown = PHYSICS.keeperKickCooldown;
+
+  if (open.length > 0 && random() < THROW_CHANCE) {
+    const vel = leadPassVelocity(ball.pos, open[0]);
+    const scale = Math.min(1, PHYSICS.maxThrowSpeed / length(vel));
+    ball.vel = { x: vel.x * scale, y: vel.y * scale };
+    events.push({ type: 'pass', playerId: p.id, targetId: open[0].id });
+    return;
+  }
+
+  const target = mates.reduce((best, m) => m.pos.x * attackDir > best.pos.x * attackDir ? m : best, mates[0]);
+  const variance = (random() - 0.5) * 0.3;
+  const angle = Math.atan2(target.pos.y - ball.pos.y, target.pos.x - ball.pos.x) + variance;
+  ball.vel.x = Math.cos(angle) * shotPower(p) * 1.2;
+  ball.vel.y = Math.sin(angle) * shotPower(p) * 1.2;
+  events.push({ type: 'kick', playerId: p.id });
+};
+
+/**
+ * Decides where an AI goalkeeper wants to move this tick. May dive (sets the
+ * keeper's velocity) or release a held ball as a side effect.
+ */
+export const goalkeeperMove = (p: Player, players: Player[], ball: Ball, profile: AiProfile, config: GameConfig, random: () => number, events: MatchEvent[]): Vector2 => {
+  const goal = ownGoal(p, config);
+  const post = config.goalWidth / 2;
+
+  // Holding the ball: wait a moment, then get rid of it
+  if (ball.ownerId === p.id) {
+    if (p.cooldown === 0) distribute(p, players, ball, random, events);
+    return { x: 0, y: 0 };
+  }
+
+  // A shot on its way: get across to where it crosses the keeper's line, diving if running won't do
+  if (ball.sinceKick >= profile.reactionDelay && isShotOnTarget(ball, p, players, config)) {
+    const crossing = projectToLine(ball, p.pos.x);
+    if (crossing) {
+      const gap = crossing.y - p.pos.y;
+      const reach = p.radius + ball.radius + profile.keeperReach + keepingReach(p);
+      const runTime = Math.max(0, Math.abs(gap) - reach) / topSpeed(p) + RUN_START;
+      if (Math.abs(gap) > reach && crossing.time < DIVE_WINDOW && runTime > crossing.time) {
+        dive(p, Math.sign(gap));
+        return { x: 0, y: 0 };
+      }
+      return { x: 0, y: Math.abs(gap) > 2 ? Math.sign(gap) : 0 };
+    }
+  }
+
+  // Loose ball in the area and close by: come and claim it
+  if (ball.ownerId === null && inPenaltyArea(ball.pos, p.team, config) && dist(p.pos, ball.pos) < CLAIM_RANGE) {
+    return normalize({ x: ball.pos.x - p.pos.x, y: ball.pos.y - p.pos.y });
+  }
+
+  // Otherwise stand on the angle, between the ball and the middle of the goal
+  const toBall = normalize({ x: ball.pos.x - goal.x, y: ball.pos.y - goal.y });
+  const target = {
+    x: goal.x + toBall.x * KEEPER_DEPTH,
+    y: Math.max(goal.y - post, Math.min(goal.y + post, goal.y + toBall.y * KEEPER_DEPTH * 2)),
+  };
+  const dx = target.x - p.pos.x;
+  const dy = target.y - p.pos.y;
+  const d = Math.sqrt(dx*dx + dy*dy);
+  return d > 2 ? { x: dx / d, y: dy / d } : { x: 0, y: 0 };
+};
+
+/**
+ * Keepers catching or parrying a loose ball in their own area, with the reach of
+ * their team's difficulty and their own keeping rating. Runs before updatePossession; a caught ball is held via
+ * `ownerId` and can't be tackled away.
+ */
+export const keeperHandling = (ball: Ball, players: Player[], difficulty: { [key in Team]: Difficulty }, config: GameConfig, events: MatchEvent[]) => {
+  if (ball.ownerId !== null) return;
+
+  const keeper = players.find(k => {
+    // The cooldown only stops a keeper handling their own kick; anything played back at them is fair game
+    const justKicked = k.cooldown > 0 && ball.lastTouchId === k.id;
+    if (!canHandle(k, config) || (justKicked && !isDiving(k))) return false;
+    const reach = k.radius + ball.radius + AI_PROFILES[difficulty[k.team]].keeperReach + keepingReach(k) + (isDiving(k) ? PHYSICS.diveReach : 0);
+    return dist(k.pos, ball.pos) <= reach;
+  });
+  if (!keeper) return;
+
+  const onTarget = isShotOnTarget(ball, keeper, players, config);
+  const relSpeed = length({ x: ball.vel.x - keeper.vel.x, y: ball.vel.y - keeper.vel.y });
+  if (relSpeed <= catchSpeed(keeper)) {
+    ball.ownerId = keeper.id;
+    ball.vel = { ...keeper.vel };
+    keeper.cooldown = PHYSICS.keeperHoldTime;
+  } else {
+    // Too hard to hold: beat it away from goal, out towards the side it came in on
+    const awayFromGoal = keeper.team === Team.BLUE ? 1 : -1;
+    const side = ball.pos.y < config.pitchHeight / 2 ? -1 : 1;
+    ball.vel = { x: awayFromGoal * relSpeed * 0.3, y: side * relSpeed * 0.3 };
+    keeper.cooldown = PHYSICS.keeperKickCooldown;
+  }
+  ball.lastTouchId = keeper.id;
+  if (onTarget) events.push({ type: 'save', playerId: keeper.id, caught: ball.ownerId === keeper.id });
+};
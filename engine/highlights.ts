@@ -0,0 +1,77 @@
+import { TICK_RATE } from '../constants';
+import { Highlight, HighlightFrame, MatchEvent, MatchState, Team } from '../types';
+import { interpolateState } from './match';
+
+// Goal replays. The live match keeps a rolling history of where everyone was over the
+// last few seconds; when a goal goes in, that history becomes a clip that can be played
+// back on the pitch straight away and kept for after the match.
+
+const HISTORY_SECONDS = 8; // How far back a goal clip reaches
+export const REPLAY_SPEED = 0.5; // The instant replay is shown in slow motion
+export const REPLAY_HOLD = 1; // s the moment the ball goes in stays on screen at the end
+
+export interface MatchHistory {
+  record: (state: MatchState) => void; // Call after every step
+  clear: () => void; // Call when everyone jumps into position: a new period, a goal, a foul or the ball going out
+  frames: () => HighlightFrame[]; // Oldest first
+}
+
+const toFrame = (state: MatchState): HighlightFrame => ({
+  players: state.players.map(p => ({ id: p.id, pos: p.pos, facing: p.facing, slideTime: p.slideTime, diveTime: p.diveTime })),
+  ball: state.ball.pos,
+  ownerId: state.ball.ownerId,
+});
+
+/** A ring buffer of the last HISTORY_SECONDS of ticks. */
+export const createMatchHistory = (): MatchHistory => {
+  const size = HISTORY_SECONDS * TICK_RATE;
+  const ring: HighlightFrame[] = [];
+  let next = 0; // Where the next frame goes once the ring is full
+  return {
+    record: state => {
+      if (ring.length < size) ring.push(toFrame(state));
+      else ring[next] = toFrame(state);
+      next = (next + 1) % size;
+    },
+    clear: () => {
+      ring.length = 0;
+      next = 0;
+    },
+    frames: () => ring.length < size ? [...ring] : [...ring.slice(next), ...ring.slice(0, next)],
+  };
+};
+
+/** The clip for `goal`, scored from `base`, the last state `history` recorded. Null if there's nothing to show. */
+export const createHighlight = (history: MatchHistory, base: MatchState, goal: Extract<MatchEvent, { type: 'goal' }>, period: number, score: { [key in Team]: number }): Highlight | null => {
+  const frames = history.frames();
+  if (frames.length < 2) return null;
+  return { team: goal.team, scorerId: goal.scorerId, period, score: { ...score }, base, frames };
+};
+
+/** Length of the clip in ticks. */
+export const highlightTicks = (highlight: Highlight) => highlight.frames.length - 1;
+
+// A frame dressed up as a full state for the renderer: no set piece, no shot meter
+const frameState = (highlight: Highlight, frame: HighlightFrame): MatchState => {
+  const { base } = highlight;
+  return {
+    ...base,
+    players: base.players.map(p => {
+      const at = frame.players.find(q => q.id === p.id);
+      return at ? { ...p, ...at, sprinting: false } : p;
+    }),
+    ball: { ...base.ball, pos: frame.ball, ownerId: frame.ownerId },
+    shotCharge: { [Team.BLUE]: 0, [Team.RED]: 0 },
+    setPiece: null,
+  };
+};
+
+/** The clip at `tick`, which may be fractional for slow motion; clamped to the clip. */
+export const highlightStateAt = (highlight: Highlight, tick: number): MatchState => {
+  const last = highlightTicks(highlight);
+  const t = Math.max(0, Math.min(last, tick));
+  const whole = Math.floor(t);
+  const prev = frameState(highlight, highlight.frames[whole]);
+  const curr = frameState(highlight, highlight.frames[Math.min(whole + 1, last)]);
+  return interpolateState(prev, curr, t - whole);
+};
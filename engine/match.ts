@@ -0,0 +1,460 @@
+import { AI_PROFILES, CONFIG, DEFAULT_ROSTERS, DEFAULT_TEAM_SETUPS, PHYSICS, TICK_DT } from '../constants';
+import { Ball, ControlInput, Difficulty, GameConfig, MatchEvent, MatchInputs, MatchState, Player, PlayerRole, Rosters, StepResult, Team, TeamSetups, Vector2 } from '../types';
+import { aiMove, aiTakeSetPiece } from './ai';
+import { acceleration, aimError, shotPower, topSpeed, updateStamina } from './attributes';
+import { keepInBounds, resolvePlayerContacts } from './collision';
+import { kickoffSpot } from './formation';
+import { isDiving, keeperHandling } from './goalkeeper';
+import { createRng } from './random';
+import { findPassTarget, leadPassVelocity } from './passing';
+import { knockLoose, updatePossession } from './possession';
+import { inGoalMouth, isFoul, outOfPlayRestart, restartFor } from './referee';
+import { awardKickoff, awardSetPiece, limitThrow, lineUpForKickoff, setPieceTaker, walkToKickoff } from './setPiece';
+import { isSliding, slideContact, startSlide, stopSlide } from './tackling';
+import { dist, lerp, normalize } from './vector';
+
+// Headless match simulation. Nothing in here touches the DOM, canvas or audio,
+// so it runs the same in the browser, in Node and in tests.
+
+const createBall = (config: GameConfig): Ball => ({
+  pos: { x: config.pitchWidth / 2, y: config.pitchHeight / 2 },
+  vel: { x: 0, y: 0 },
+  radius: 6,
+  mass: 1,
+  ownerId: null,
+  lastTouchId: null,
+  sinceKick: 0
+});
+
+const createPlayers = (teams: TeamSetups, rosters: Rosters, config: GameConfig): Player[] => {
+  const players: Player[] = [];
+  let idCounter = 0;
+
+  const createPlayer = (team: Team, slot: number): Player => {
+    const { formation, tactics } = teams[team];
+    const { role } = formation[slot];
+    return {
+      id: idCounter++,
+      jerseyNum: rosters[team].players[slot].number,
+      team,
+      role,
+      slot,
+      pos: kickoffSpot(formation[slot], team, tactics, config),
+      vel: { x: 0, y: 0 },
+      radius: 12,
+      mass: 5,
+      attributes: { ...rosters[team].players[slot].attributes },
+      stamina: 1,
+      sprinting: false,
+      cooldown: 0,
+      facing: { x: team === Team.BLUE ? 1 : -1, y: 0 },
+      slideTime: 0,
+      diveTime: 0
+    };
+  };
+
+  // Blue on the left, Red on the right, five each
+  [Team.BLUE, Team.RED].forEach(team => {
+    teams[team].formation.forEach((_, slot) => players.push(createPlayer(team, slot)));
+  });
+
+  return players;
+};
+
+// Formation slot each team starts out controlling: Blue's #9 and Red's #10 in the default squads
+const KICKOFF_SLOTS: { [key in Team]: number } = { [Team.BLUE]: 4, [Team.RED]: 3 };
+
+const kickoffActivePlayers = (players: Player[]): { [key in Team]: number } => ({
+  [Team.BLUE]: players.find(p => p.team === Team.BLUE && p.slot === KICKOFF_SLOTS[Team.BLUE])?.id ?? 0,
+  [Team.RED]: players.find(p => p.team === Team.RED && p.slot === KICKOFF_SLOTS[Team.RED])?.id ?? 0,
+});
+
+// AI teams start out looking at the ball on the centre spot
+const centreSpotView = (config: GameConfig): { [key in Team]: Vector2 } => ({
+  [Team.BLUE]: { x: config.pitchWidth / 2, y: config.pitchHeight / 2 },
+  [Team.RED]: { x: config.pitchWidth / 2, y: config.pitchHeight / 2 },
+});
+
+/** Puts every player back in the kickoff shape with the ball on the centre spot. Stamina carries over. */
+export const resetPositions = (state: MatchState, config: GameConfig = CONFIG): MatchState => {
+  const players = createPlayers(state.teams, state.rosters, config);
+  players.forEach(p => {
+    p.stamina = state.players.find(before => before.id === p.id)?.stamina ?? 1;
+  });
+  return {
+    ...state,
+    players,
+    ball: createBall(config),
+    activePlayerIds: kickoffActivePlayers(players),
+    switchHold: { [Team.BLUE]: 0, [Team.RED]: 0 },
+    shotCharge: { [Team.BLUE]: 0, [Team.RED]: 0 },
+    setPiece: null,
+    aiBallView: centreSpotView(config),
+  };
+};
+
+/** Who kicks off `period` (1-based): the teams take turns, Blue first. */
+export const periodKickoffTeam = (period: number): Team => period % 2 === 1 ? Team.BLUE : Team.RED;
+
+/** Kickoff for the next period by `kickoffTeam`, with the players' stamina partly restored by the break. */
+export const startPeriod = (state: MatchState, kickoffTeam: Team, config: GameConfig = CONFIG): MatchState => {
+  const next = resetPositions(state, config);
+  next.players.forEach(p => {
+    p.stamina = Math.min(1, p.stamina + PHYSICS.breakRecovery);
+  });
+  awardKickoff(next, kickoffTeam, config, true);
+  return next;
+};
+
+/**
+ * A new match at kickoff. `difficulty` is the Red AI's; Blue's AI teammates always play at Normal.
+ * `teams` sets each side's formation and tactics, `rosters` their names, kits and shirt numbers.
+ */
+export const createMatchState = (seed: number, config: GameConfig = CONFIG, difficulty: Difficulty = Difficulty.NORMAL, teams: TeamSetups = DEFAULT_TEAM_SETUPS, rosters: Rosters = DEFAULT_ROSTERS): MatchState => {
+  const players = createPlayers(teams, rosters, config);
+  const state: MatchState = {
+    seed,
+    rngState: seed >>> 0,
+    players,
+    ball: createBall(config),
+    activePlayerIds: kickoffActivePlayers(players),
+    switchHold: { [Team.BLUE]: 0, [Team.RED]: 0 },
+    shotCharge: { [Team.BLUE]: 0, [Team.RED]: 0 },
+    prevInputs: {},
+    setPiece: null,
+    aiDifficulty: { [Team.BLUE]: Difficulty.NORMAL, [Team.RED]: difficulty },
+    aiBallView: centreSpotView(config),
+    teams,
+    rosters,
+  };
+  awardKickoff(state, periodKickoffTeam(1), config, true);
+  return state;
+};
+
+const cloneState = (state: MatchState): MatchState => ({
+  ...state,
+  players: state.players.map(p => ({ ...p, pos: { ...p.pos }, vel: { ...p.vel }, facing: { ...p.facing } })),
+  ball: { ...state.ball, pos: { ...state.ball.pos }, vel: { ...state.ball.vel } },
+  activePlayerIds: { ...state.activePlayerIds },
+  switchHold: { ...state.switchHold },
+  shotCharge: { ...state.shotCharge },
+  setPiece: state.setPiece && { ...state.setPiece },
+  aiBallView: { [Team.BLUE]: { ...state.aiBallView[Team.BLUE] }, [Team.RED]: { ...state.aiBallView[Team.RED] } },
+});
+
+/**
+ * Blends two consecutive ticks for drawing. `alpha` is how far the renderer is
+ * between `prev` (0) and `curr` (1); everything except positions comes from `curr`.
+ */
+export const interpolateState = (prev: MatchState, curr: MatchState, alpha: number): MatchState => ({
+  ...curr,
+  players: curr.players.map(p => {
+    const before = prev.players.find(pp => pp.id === p.id);
+    return before ? { ...p, pos: lerp(before.pos, p.pos, alpha) } : p;
+  }),
+  ball: { ...curr.ball, pos: lerp(prev.ball.pos, curr.ball.pos, alpha) },
+});
+
+// Auto-switch to the teammate closest to the ball, with hysteresis so control doesn't flicker
+const selectActivePlayer = (players: Player[], ball: Ball, team: Team, activePlayerId: number): number => {
+  let closestDist = Infinity;
+  let closestId = activePlayerId;
+  const currentActive = players.find(pl => pl.id === activePlayerId);
+  const currentDist = currentActive ? dist(currentActive.pos, ball.pos) : Infinity;
+
+  players.forEach(p => {
+    if (p.team !== team) return;
+    const d = dist(p.pos, ball.pos);
+
+    // Auto-switch hysteresis: Only switch if significantly closer
+    if (d < closestDist) {
+      closestDist = d;
+      if (p.id !== activePlayerId && d < currentDist - 40) {
+        closestId = p.id;
+      } else if (p.id === activePlayerId) {
+        closestId = p.id;
+      }
+    }
+  });
+  return closestId;
+};
+
+// Manual switch: hand control to the best-positioned outfield teammate, i.e. the one
+// who can reach where the ball is heading soonest, preferring players goal-side of it
+const switchActivePlayer = (players: Player[], ball: Ball, team: Team, activePlayerId: number, config: GameConfig): number => {
+  const ownGoalX = team === Team.BLUE ? 0 : config.pitchWidth;
+  const ballSoon = { x: ball.pos.x + ball.vel.x * 0.4, y: ball.pos.y + ball.vel.y * 0.4 };
+  const score = (p: Player) => {
+    const goalSide = Math.abs(p.pos.x - ownGoalX) < Math.abs(ballSoon.x - ownGoalX);
+    return dist(p.pos, ballSoon) - (goalSide ? 30 : 0);
+  };
+
+  const candidates = players
+    .filter(p => p.team === team && p.id !== activePlayerId && p.role !== PlayerRole.GOALKEEPER)
+    .sort((a, b) => score(a) - score(b));
+  return candidates.length > 0 ? candidates[0].id : activePlayerId;
+};
+
+const HUMAN_SHOT_SPREAD = 0.1; // Radians of aim error on a human's shot, for an average shooter
+
+const canKick = (p: Player, ball: Ball) => p.cooldown === 0 && dist(p.pos, ball.pos) < p.radius + ball.radius + 15;
+
+// Human-controlled player: move along the input (sprinting while it's held and stamina lasts),
+// pass on press, and charge a shot while shoot is held that is released (soft to full power)
+// when the button comes up
+const userMove = (p: Player, input: ControlInput, prevInput: ControlInput | undefined, state: MatchState, random: () => number, events: MatchEvent[]) => {
+  const { players, ball } = state;
+  const targetDx = input.move.x;
+  const targetDy = input.move.y;
+  const attackDir = p.team === Team.BLUE ? 1 : -1;
+  p.sprinting = input.sprint && p.stamina > 0 && (targetDx !== 0 || targetDy !== 0);
+
+  // Slide tackle along the stick, or straight on if it's centred
+  if (input.tackle && !prevInput?.tackle && !state.setPiece && ball.ownerId !== p.id) {
+    startSlide(p, targetDx === 0 && targetDy === 0 ? p.facing : input.move, events);
+    state.shotCharge[p.team] = 0;
+    return { x: 0, y: 0 };
+  }
+
+  // Directed pass: to the teammate nearest the stick direction, led onto their run
+  if (input.pass && !prevInput?.pass && canKick(p, ball)) {
+    const aim = targetDx === 0 && targetDy === 0 ? { x: attackDir, y: 0 } : input.move;
+    const receiver = findPassTarget(p, players, aim);
+    if (receiver) {
+      ball.vel = leadPassVelocity(ball.pos, receiver);
+      ball.ownerId = null;
+      p.cooldown = PHYSICS.userKickCooldown;
+      state.shotCharge[p.team] = 0;
+      events.push({ type: 'pass', playerId: p.id, targetId: receiver.id });
+      return { x: targetDx, y: targetDy };
+    }
+  }
+
+  // Charge shot
+  if (input.shoot) {
+    state.shotCharge[p.team] = Math.min(1, state.shotCharge[p.team] + TICK_DT / PHYSICS.shotChargeTime);
+  } else if (prevInput?.shoot) {
+    const charge = state.shotCharge[p.team];
+    state.shotCharge[p.team] = 0;
+
+    if (canKick(p, ball)) {
+       const aim = normalize(targetDx === 0 && targetDy === 0 ? { x: attackDir, y: 0 } : input.move);
+       const angle = Math.atan2(aim.y, aim.x) + aimError(p, HUMAN_SHOT_SPREAD, random);
+       const power = shotPower(p) * (PHYSICS.minShotPower + (PHYSICS.maxShotPower - PHYSICS.minShotPower) * charge);
+       ball.vel.x = Math.cos(angle) * power;
+       ball.vel.y = Math.sin(angle) * power;
+       ball.ownerId = null;
+       p.cooldown = PHYSICS.userKickCooldown;
+       events.push({ type: 'kick', playerId: p.id });
+    }
+  }
+
+  return { x: targetDx, y: targetDy };
+};
+
+// Set piece: only the taker acts, and only once the wait is over; everyone else holds still.
+// Before a kickoff everyone, the taker included, first walks back into position.
+// A human taker turns with the stick (the aim stays put when it's let go) and uses
+// the usual buttons: pass to the teammate in that direction, or hold shoot for a
+// kick (a cross from a corner, a long throw at a throw-in) of that strength.
+const setPieceMove = (p: Player, inputs: MatchInputs, prevInputs: MatchInputs, state: MatchState, config: GameConfig, random: () => number, events: MatchEvent[]) => {
+  const setPiece = state.setPiece!;
+  if (setPiece.kind === 'kickoff' && setPiece.wait > 0) return walkToKickoff(p, state, config);
+  if (p.id !== setPiece.takerId) return { x: 0, y: 0 };
+
+  const input = inputs[p.team];
+  if (input && (input.move.x !== 0 || input.move.y !== 0)) p.facing = normalize(input.move);
+  if (setPiece.wait > 0) return { x: 0, y: 0 };
+
+  if (input) userMove(p, { ...input, move: p.facing, sprint: false }, prevInputs[p.team], state, random, events);
+  else aiTakeSetPiece(p, setPiece.kind, state.players, state.ball, AI_PROFILES[state.aiDifficulty[p.team]], config, random, events);
+
+  if (setPiece.kind === 'throwIn') limitThrow(state.ball, config);
+  return { x: 0, y: 0 };
+};
+
+const movePlayer = (p: Player, targetDx: number, targetDy: number, config: GameConfig) => {
+  if (targetDx !== 0 || targetDy !== 0) {
+    p.vel.x += targetDx * acceleration(p) * TICK_DT;
+    p.vel.y += targetDy * acceleration(p) * TICK_DT;
+  }
+
+  // A sliding or diving player keeps going on momentum, faster than they can run
+  const sliding = isSliding(p) || isDiving(p);
+  const damping = Math.exp(-(sliding ? PHYSICS.slideFriction : PHYSICS.playerFriction) * TICK_DT);
+  p.vel.x *= damping;
+  p.vel.y *= damping;
+
+  const speed = Math.sqrt(p.vel.x**2 + p.vel.y**2);
+  const maxSpeed = topSpeed(p);
+  if (speed > maxSpeed && !sliding) {
+    p.vel.x = (p.vel.x / speed) * maxSpeed;
+    p.vel.y = (p.vel.y / speed) * maxSpeed;
+  }
+
+  // Only turn when actually moving, so a player standing still keeps the ball where it was
+  if (speed > 20) {
+    const current = Math.sqrt(p.vel.x**2 + p.vel.y**2);
+    p.facing = { x: p.vel.x / current, y: p.vel.y / current };
+  }
+
+  p.pos.x += p.vel.x * TICK_DT;
+  p.pos.y += p.vel.y * TICK_DT;
+
+  keepInBounds(p, config);
+};
+
+// Returns the team that scored, if the ball crossed a goal line inside the posts.
+// Anywhere else over a line is left to the referee's out-of-play check.
+const moveBall = (ball: Ball, config: GameConfig): Team | null => {
+
+  // Nothing (kick, pass, deflection) may push the ball past its top speed
+  const speed = Math.sqrt(ball.vel.x**2 + ball.vel.y**2);
+  if (speed > PHYSICS.maxBallSpeed) {
+    ball.vel.x = (ball.vel.x / speed) * PHYSICS.maxBallSpeed;
+    ball.vel.y = (ball.vel.y / speed) * PHYSICS.maxBallSpeed;
+  }
+
+  ball.sinceKick += TICK_DT;
+  const damping = Math.exp(-PHYSICS.friction * TICK_DT);
+  ball.vel.x *= damping;
+  ball.vel.y *= damping;
+  ball.pos.x += ball.vel.x * TICK_DT;
+  ball.pos.y += ball.vel.y * TICK_DT;
+
+  // Goal Check
+  if (inGoalMouth(ball.pos.y, config)) {
+    if (ball.pos.x < 0) return Team.RED;
+    if (ball.pos.x > config.pitchWidth) return Team.BLUE;
+  }
+  return null;
+};
+
+const possessionEvent = (ownerId: number | null, players: Player[]): MatchEvent => ({
+  type: 'possession',
+  playerId: ownerId,
+  team: players.find(p => p.id === ownerId)?.team ?? null,
+});
+
+/**
+ * Advances the match by one fixed tick of TICK_DT seconds. Pure: `prev` is left untouched and a new
+ * state is returned together with the events (kicks, goals, fouls, possession changes) that happened.
+ */
+export const step = (prev: MatchState, inputs: MatchInputs, config: GameConfig = CONFIG): StepResult => {
+  const state = cloneState(prev);
+  const events: MatchEvent[] = [];
+  const { players, ball } = state;
+  const rng = createRng(state.rngState);
+
+  // 1. Determine Active Player for every human-controlled team
+  (Object.keys(inputs) as Team[]).forEach(team => {
+    if (state.setPiece) return; // Control stays with the set-piece taker until it's taken
+    const input = inputs[team]!;
+    state.switchHold[team] = Math.max(0, state.switchHold[team] - TICK_DT);
+
+    if (input.switchPlayer && !prev.prevInputs[team]?.switchPlayer) {
+      state.activePlayerIds[team] = switchActivePlayer(players, ball, team, state.activePlayerIds[team], config);
+      state.switchHold[team] = PHYSICS.switchHold;
+    } else if (state.switchHold[team] === 0) {
+      state.activePlayerIds[team] = selectActivePlayer(players, ball, team, state.activePlayerIds[team]);
+    }
+  });
+  state.prevInputs = inputs;
+
+  // AI players see the ball late by their reaction delay: their picture of it eases towards the real thing
+  (Object.keys(state.aiBallView) as Team[]).forEach(team => {
+    const delay = AI_PROFILES[state.aiDifficulty[team]].reactionDelay;
+    const follow = delay > 0 ? 1 - Math.exp(-TICK_DT / delay) : 1;
+    const view = state.aiBallView[team];
+    view.x += (ball.pos.x - view.x) * follow;
+    view.y += (ball.pos.y - view.y) * follow;
+  });
+
+  // 2. Player Logic
+  if (state.setPiece) {
+    state.setPiece.wait = Math.max(0, state.setPiece.wait - TICK_DT);
+    // Anyone who hasn't made it back when the kickoff is due is put in position
+    if (state.setPiece.kind === 'kickoff' && state.setPiece.wait === 0 && prev.setPiece!.wait > 0) lineUpForKickoff(state, config);
+  }
+  players.forEach(p => {
+    p.cooldown = Math.max(0, p.cooldown - TICK_DT);
+    p.slideTime = Math.max(0, p.slideTime - TICK_DT);
+    p.diveTime = Math.max(0, p.diveTime - TICK_DT);
+    p.sprinting = false; // Whoever is in control decides again this tick
+
+    const input = inputs[p.team];
+    let target;
+    if (p.slideTime > 0 || p.diveTime > 0) target = { x: 0, y: 0 }; // No control while on the ground
+    else if (state.setPiece) target = setPieceMove(p, inputs, prev.prevInputs, state, config, rng.next, events);
+    else if (input && p.id === state.activePlayerIds[p.team]) target = userMove(p, input, prev.prevInputs[p.team], state, rng.next, events);
+    else target = aiMove(p, players, ball, state.aiBallView[p.team], AI_PROFILES[state.aiDifficulty[p.team]], state.teams[p.team], config, rng.next, events);
+
+    movePlayer(p, target.x, target.y, config);
+    updateStamina(p);
+  });
+
+  // Play restarts as soon as the taker has kicked the ball
+  if (state.setPiece && (ball.vel.x !== 0 || ball.vel.y !== 0)) state.setPiece = null;
+
+  events.forEach(event => {
+    if (event.type === 'kick' || event.type === 'pass') {
+      ball.lastTouchId = event.playerId;
+      ball.sinceKick = 0;
+    }
+  });
+
+  // 3. Slide tackles that reach an opponent: the referee decides
+  for (const tackler of players) {
+    if (!isSliding(tackler)) continue;
+    const victim = slideContact(tackler, players);
+    if (!victim) continue;
+    stopSlide(tackler);
+
+    if (isFoul(tackler, victim, ball, rng.next)) {
+      const restart = restartFor(tackler, victim, config);
+      events.push({ type: 'foul', playerId: tackler.id, victimId: victim.id, restart });
+      if (prev.ball.ownerId !== null) events.push(possessionEvent(null, players));
+      awardSetPiece(state, restart, victim, victim.pos, config);
+      state.rngState = rng.state();
+      return { state, events };
+    }
+    // Fair challenge: the opponent loses the ball if they had it
+    if (ball.ownerId === victim.id) knockLoose(ball, players, tackler, PHYSICS.slidePoke);
+  }
+
+  state.rngState = rng.state();
+
+  // 4. Body contact: nobody runs through anybody else. Not while a set piece is being
+  // taken, where pushing could move someone inside the wall distance or the centre circle
+  if (!state.setPiece) resolvePlayerContacts(players, ball, config);
+
+  // 5. Ball Physics
+  const scoringTeam = moveBall(ball, config);
+  if (scoringTeam) {
+    events.push({ type: 'goal', team: scoringTeam, scorerId: ball.lastTouchId });
+    if (prev.ball.ownerId !== null) events.push(possessionEvent(null, players));
+    // The side that conceded kicks off once everyone has walked back
+    awardKickoff(state, scoringTeam === Team.BLUE ? Team.RED : Team.BLUE, config, false);
+    return { state, events };
+  }
+
+  // 6. Ball Collision with Players (saves, dribbling, steals, first touches)
+  if (!state.setPiece) {
+    keeperHandling(ball, players, state.aiDifficulty, config, events);
+    updatePossession(ball, players, config);
+  }
+
+  // 7. Out of play: throw-in, corner or goal kick against whoever touched it last
+  const lastTouchTeam = players.find(p => p.id === ball.lastTouchId)?.team ?? null;
+  const restart = state.setPiece ? null : outOfPlayRestart(ball, lastTouchTeam, config);
+  if (restart) {
+    events.push({ type: 'out', restart: restart.kind, team: restart.team });
+    if (prev.ball.ownerId !== null) events.push(possessionEvent(null, players));
+    awardSetPiece(state, restart.kind, setPieceTaker(players, restart.kind, restart.team, restart.spot), restart.spot, config);
+    return { state, events };
+  }
+
+  if (ball.ownerId !== prev.ball.ownerId) events.push(possessionEvent(ball.ownerId, players));
+
+  return { state, events };
+};
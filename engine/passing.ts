@@ -0,0 +1,53 @@
+import { PHYSICS } from '../constants';
+import { Player, Vector2 } from '../types';
+import { dist, normalize } from './vector';
+
+const PASS_CONE = Math.PI / 3; // Teammates further than 60° off the aim are ignored
+const LEAD_ITERATIONS = 3;
+
+/**
+ * Teammate nearest to `direction` as seen from the passer. Angle dominates,
+ * distance breaks near-ties, so a short pass isn't skipped for a long one
+ * that is only a few degrees closer to the aim.
+ */
+export const findPassTarget = (passer: Player, players: Player[], direction: Vector2): Player | null => {
+  const aim = normalize(direction);
+  let best: Player | null = null;
+  let bestScore = Infinity;
+
+  players.forEach(mate => {
+    if (mate.team !== passer.team || mate.id === passer.id) return;
+    const to = normalize({ x: mate.pos.x - passer.pos.x, y: mate.pos.y - passer.pos.y });
+    const angle = Math.acos(Math.max(-1, Math.min(1, to.x * aim.x + to.y * aim.y)));
+    if (angle > PASS_CONE) return;
+
+    const score = angle + dist(passer.pos, mate.pos) / 1000;
+    if (score < bestScore) {
+      bestScore = score;
+      best = mate;
+    }
+  });
+  return best;
+};
+
+// With exponential drag k, a ball kicked at v0 covers (v0 - v) / k by the time it has slowed to v
+const launchSpeedFor = (distance: number) => distance * PHYSICS.friction + PHYSICS.passArrivalSpeed;
+const travelTime = (launchSpeed: number) => Math.log(launchSpeed / PHYSICS.passArrivalSpeed) / PHYSICS.friction;
+
+/**
+ * Ball velocity for a pass that meets `receiver` where they will be, assuming
+ * they keep their current velocity, and arrives at PHYSICS.passArrivalSpeed.
+ */
+export const leadPassVelocity = (from: Vector2, receiver: Player): Vector2 => {
+  let target = receiver.pos;
+  let speed = launchSpeedFor(dist(from, target));
+  for (let i = 0; i < LEAD_ITERATIONS; i++) {
+    const t = travelTime(speed);
+    target = { x: receiver.pos.x + receiver.vel.x * t, y: receiver.pos.y + receiver.vel.y * t };
+    speed = launchSpeedFor(dist(from, target));
+  }
+
+  const dir = normalize({ x: target.x - from.x, y: target.y - from.y });
+  const capped = Math.min(speed, PHYSICS.maxBallSpeed);
+  return { x: dir.x * capped, y: dir.y * capped };
+};
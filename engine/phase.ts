@@ -0,0 +1,112 @@
+import { TICK_RATE } from '../constants';
+import { MatchClock, MatchEvent, MatchPhase, MatchRules, MatchState, Team, TieBreak } from '../types';
+import { isExtraTime } from './rules';
+
+// The match phase machine. It owns the match clock, counted in simulation ticks, so the
+// clock only runs while the ball is live: it waits at kickoffs and set-piece restarts and
+// while the players walk back after a goal. Transitions that follow from play (a goal, a
+// restart, the period running out) happen in `advanceClock`; the ones a player asks for
+// (kicking off, starting the next period or the shootout) are separate functions.
+
+// Shown next to the period while the ball isn't simply in play
+export const PHASE_LABELS: { [key in MatchPhase]?: string } = {
+  [MatchPhase.KICKOFF]: '킥오프',
+  [MatchPhase.STOPPAGE]: '경기 중단',
+  [MatchPhase.GOAL_CELEBRATION]: '골!',
+  [MatchPhase.PERIOD_BREAK]: '휴식',
+};
+
+export const createMatchClock = (rules: MatchRules): MatchClock => ({
+  phase: MatchPhase.PRE_MATCH,
+  period: 1,
+  ticksLeft: rules.periodLength * TICK_RATE,
+  phaseTicks: 0,
+  score: { [Team.BLUE]: 0, [Team.RED]: 0 },
+  lastGoal: null,
+});
+
+/** Whether the match simulation steps in `phase`. */
+export const isSimulating = (phase: MatchPhase) =>
+  phase === MatchPhase.KICKOFF || phase === MatchPhase.IN_PLAY || phase === MatchPhase.STOPPAGE || phase === MatchPhase.GOAL_CELEBRATION;
+
+/** Whether the pitch is live in `phase`: simulating or taking penalties. Only then can it be paused. */
+export const isLive = (phase: MatchPhase) => isSimulating(phase) || phase === MatchPhase.SHOOTOUT;
+
+/** Whole seconds left on the period clock, as shown on the scoreboard. */
+export const secondsLeft = (clock: MatchClock) => Math.ceil(clock.ticksLeft / TICK_RATE);
+
+const enter = (clock: MatchClock, phase: MatchPhase): MatchClock => ({ ...clock, phase, phaseTicks: 0 });
+
+const isLevel = (clock: MatchClock) => clock.score[Team.BLUE] === clock.score[Team.RED];
+
+/** What the break after `clock.period` leads to: another period (normal or extra time) or the shootout. */
+export const breakLeadsTo = (clock: MatchClock, rules: MatchRules): 'period' | 'shootout' =>
+  clock.period < rules.periods || (clock.period === rules.periods && rules.tieBreak === TieBreak.GOLDEN_GOAL) ? 'period' : 'shootout';
+
+// Time is up: a break if there's more to play, otherwise full time
+const periodOver = (clock: MatchClock, rules: MatchRules): MatchClock =>
+  enter(clock, clock.period < rules.periods || (isLevel(clock) && rules.tieBreak !== TieBreak.NONE) ? MatchPhase.PERIOD_BREAK : MatchPhase.FULL_TIME);
+
+/** Advances the clock by one tick. `state` and `events` are what that tick's `step` produced. */
+export const advanceClock = (clock: MatchClock, rules: MatchRules, state: MatchState, events: MatchEvent[]): MatchClock => {
+  const goal = events.find(e => e.type === 'goal');
+  if (goal?.type === 'goal') {
+    return { ...enter(clock, MatchPhase.GOAL_CELEBRATION), score: { ...clock.score, [goal.team]: clock.score[goal.team] + 1 }, lastGoal: goal.team };
+  }
+
+  const next = { ...clock, phaseTicks: clock.phaseTicks + 1 };
+  switch (clock.phase) {
+    case MatchPhase.KICKOFF: {
+      const touched = events.some(e => e.type === 'kick' || e.type === 'pass' || (e.type === 'possession' && e.playerId !== null));
+      return touched ? enter(next, MatchPhase.IN_PLAY) : next;
+    }
+    case MatchPhase.IN_PLAY: {
+      const running = { ...next, ticksLeft: next.ticksLeft - 1 };
+      if (running.ticksLeft <= 0) return periodOver(running, rules);
+      return state.setPiece ? enter(running, MatchPhase.STOPPAGE) : running;
+    }
+    case MatchPhase.STOPPAGE:
+      return state.setPiece ? next : enter(next, MatchPhase.IN_PLAY);
+    case MatchPhase.GOAL_CELEBRATION:
+      // Over once everyone is back in position; a goal in extra time is a golden goal
+      if (state.setPiece?.kind === 'kickoff' && state.setPiece.wait > 0) return next;
+      return enter(next, isExtraTime(rules, clock.period) ? MatchPhase.FULL_TIME : MatchPhase.KICKOFF);
+    default:
+      return next;
+  }
+};
+
+/** Kicks the match off, or the next period after a break. */
+export const kickOff = (clock: MatchClock, rules: MatchRules): MatchClock => {
+  if (clock.phase === MatchPhase.PRE_MATCH) return enter(clock, MatchPhase.KICKOFF);
+  if (clock.phase !== MatchPhase.PERIOD_BREAK || breakLeadsTo(clock, rules) !== 'period') return clock;
+  return { ...enter(clock, MatchPhase.KICKOFF), period: clock.period + 1, ticksLeft: rules.periodLength * TICK_RATE };
+};
+
+export const startShootout = (clock: MatchClock, rules: MatchRules): MatchClock =>
+  clock.phase === MatchPhase.PERIOD_BREAK && breakLeadsTo(clock, rules) === 'shootout' ? enter(clock, MatchPhase.SHOOTOUT) : clock;
+
+/** Ends the shootout once it has a winner. */
+export const endShootout = (clock: MatchClock): MatchClock =>
+  clock.phase === MatchPhase.SHOOTOUT ? enter(clock, MatchPhase.FULL_TIME) : clock;
+
+export interface PhaseMachine {
+  clock: () => MatchClock;
+  tick: (state: MatchState, events: MatchEvent[]) => MatchClock; // See advanceClock
+  kickOff: () => MatchClock;
+  startShootout: () => MatchClock;
+  endShootout: () => MatchClock;
+}
+
+/** One match's clock, shared between the screen that drives the simulation and the one that shows the phase. */
+export const createPhaseMachine = (rules: MatchRules): PhaseMachine => {
+  let clock = createMatchClock(rules);
+  const set = (next: MatchClock) => (clock = next);
+  return {
+    clock: () => clock,
+    tick: (state, events) => set(advanceClock(clock, rules, state, events)),
+    kickOff: () => set(kickOff(clock, rules)),
+    startShootout: () => set(startShootout(clock, rules)),
+    endShootout: () => set(endShootout(clock)),
+  };
+};
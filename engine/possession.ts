@@ -0,0 +1,91 @@
+import { PHYSICS } from '../constants';
+import { Ball, GameConfig, Player } from '../types';
+import { canHandle } from './goalkeeper';
+import { isSliding } from './tackling';
+import { dist, distToSegment, length } from './vector';
+
+// Possession model: `ball.ownerId` is the player dribbling the ball. The ball is
+// carried in front of the owner; anyone else can take it by touching it, and a
+// loose ball is only brought under control if it isn't coming in too fast. A dribbler
+// shields the ball: nobody can take it through their body.
+
+// 0 (standing) .. 1 (full sprint): how hurried the player's touch is
+const hurry = (p: Player) => Math.min(1, length(p.vel) / PHYSICS.sprintSpeed);
+
+/** Fastest relative ball speed (px/s) this player can still trap; drops as they run faster. */
+export const controlLimit = (p: Player) => PHYSICS.controlSpeed * (1 - 0.5 * hurry(p));
+
+const inContact = (p: Player, ball: Ball) => dist(p.pos, ball.pos) < p.radius + ball.radius;
+
+// The owner's body is between `p` and the ball
+const shielded = (owner: Player, p: Player, ball: Ball) => distToSegment(owner.pos, p.pos, ball.pos) < owner.radius;
+
+// Keep the ball at dribble distance along the owner's facing. Running faster
+// knocks it further ahead, which is what makes a sprinting dribble loose.
+// It may be carried over a line; the referee deals with that after the tick.
+const carryBall = (owner: Player, ball: Ball, config: GameConfig) => {
+  const reach = PHYSICS.dribbleDistance + hurry(owner) * PHYSICS.dribbleLooseness;
+  ball.pos.x = Math.max(-ball.radius, Math.min(config.pitchWidth + ball.radius, owner.pos.x + owner.facing.x * reach));
+  ball.pos.y = Math.max(0, Math.min(config.pitchHeight, owner.pos.y + owner.facing.y * reach));
+  ball.vel.x = owner.vel.x;
+  ball.vel.y = owner.vel.y;
+  ball.lastTouchId = owner.id;
+};
+
+// Loose ball bouncing off a player who couldn't (or wasn't allowed to) control it
+const deflect = (p: Player, ball: Ball) => {
+  const angle = Math.atan2(ball.pos.y - p.pos.y, ball.pos.x - p.pos.x);
+  ball.vel.x += Math.cos(angle) * PHYSICS.ballContactForce;
+  ball.vel.y += Math.sin(angle) * PHYSICS.ballContactForce;
+  ball.lastTouchId = p.id;
+};
+
+/** Knocks the ball loose from whoever has it, on along `by`'s facing at `speed`. */
+export const knockLoose = (ball: Ball, players: Player[], by: Player, speed: number) => {
+  const owner = players.find(p => p.id === ball.ownerId);
+  if (owner) owner.cooldown = Math.max(owner.cooldown, PHYSICS.possessionLockout);
+  ball.ownerId = null;
+  ball.lastTouchId = by.id;
+  ball.vel = { x: by.facing.x * speed, y: by.facing.y * speed };
+};
+
+/**
+ * Resolves ball-player contact for this tick: slide tackles, steals, first touches,
+ * deflections, and carrying the ball for whoever ends up owning it. Mutates `ball` and `players`.
+ */
+export const updatePossession = (ball: Ball, players: Player[], config: GameConfig) => {
+  // A slide that reaches the ball pokes it on, whoever had it
+  const slider = players.find(p => isSliding(p) && inContact(p, ball));
+  if (slider) {
+    knockLoose(ball, players, slider, PHYSICS.slidePoke);
+    return;
+  }
+
+  const owner = ball.ownerId !== null ? players.find(p => p.id === ball.ownerId) : undefined;
+
+  if (owner) {
+    // An opponent who gets a touch on the ball takes it off the dribbler, unless it's in the keeper's hands
+    const challenger = !canHandle(owner, config) && players.find(p => p.team !== owner.team && p.cooldown === 0 && inContact(p, ball) && !shielded(owner, p, ball));
+    if (challenger) {
+      ball.ownerId = challenger.id;
+      owner.cooldown = Math.max(owner.cooldown, PHYSICS.possessionLockout);
+      carryBall(challenger, ball, config);
+      return;
+    }
+    carryBall(owner, ball, config);
+    return;
+  }
+
+  ball.ownerId = null;
+  players.forEach(p => {
+    if (ball.ownerId !== null || !inContact(p, ball)) return;
+
+    const relSpeed = length({ x: ball.vel.x - p.vel.x, y: ball.vel.y - p.vel.y });
+    if (p.cooldown === 0 && relSpeed <= controlLimit(p)) {
+      ball.ownerId = p.id;
+      carryBall(p, ball, config);
+    } else {
+      deflect(p, ball);
+    }
+  });
+};
@@ -0,0 +1,42 @@
+// Seedable PRNG (mulberry32). The whole generator state is a single uint32, so it
+// can live inside MatchState and keep `step` pure and replayable.
+
+export interface Rng {
+  next: () => number; // Uniform in [0, 1)
+  state: () => number; // Current internal state, to store back into MatchState
+}
+
+export const createRng = (state: number): Rng => {
+  let s = state >>> 0;
+  return {
+    next: () => {
+      s = (s + 0x6D2B79F5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    state: () => s,
+  };
+};
+
+/** Fresh seed for a match nobody asked to reproduce. */
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+/**
+ * Turns what the user typed into a seed: plain numbers are used as-is,
+ * anything else ("cup-final") is hashed. Returns null for blank input.
+ */
+export const parseSeed = (text: string): number | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+
+  // FNV-1a
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
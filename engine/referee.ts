@@ -0,0 +1,85 @@
+import { PITCH, PHYSICS } from '../constants';
+import { Ball, GameConfig, Player, RestartKind, Team, Vector2 } from '../types';
+import { tackleRisk } from './attributes';
+import { dist, length } from './vector';
+
+// The referee judges slide tackles that reach an opponent, and calls the ball out
+// of play. Coming in from behind, at speed, or nowhere near the ball each make a
+// foul more likely.
+
+const FOUL_THRESHOLD = 0.55;
+const LENIENCY = 0.15; // ± spread on the threshold, so borderline calls can go either way
+const BALL_MISS_RANGE = 40; // px beyond touching distance at which a tackle has clearly missed the ball
+
+/**
+ * How reckless a challenge was: 0 is a clean tackle from the front on the ball, ~1.5
+ * the worst for an average tackler. Good tacklers get away with more.
+ */
+export const challengeSeverity = (tackler: Player, victim: Player, ball: Ball) => {
+  // Sliding the way the opponent is facing means going through their back
+  const fromBehind = Math.max(0, tackler.facing.x * victim.facing.x + tackler.facing.y * victim.facing.y);
+  const closingSpeed = Math.min(1, length({ x: tackler.vel.x - victim.vel.x, y: tackler.vel.y - victim.vel.y }) / PHYSICS.slideSpeed);
+  const toBall = dist(tackler.pos, ball.pos) - tackler.radius - ball.radius;
+  const missedBall = Math.min(1, Math.max(0, toBall / BALL_MISS_RANGE));
+  return (0.5 * fromBehind + 0.3 * closingSpeed + 0.7 * missedBall) * tackleRisk(tackler);
+};
+
+export const isFoul = (tackler: Player, victim: Player, ball: Ball, random: () => number) =>
+  challengeSeverity(tackler, victim, ball) > FOUL_THRESHOLD + (random() - 0.5) * 2 * LENIENCY;
+
+// Goals are checked against the ball's centre, with a little give at the posts
+export const inGoalMouth = (y: number, config: GameConfig) =>
+  Math.abs(y - config.pitchHeight / 2) < config.goalWidth / 2 + 5;
+
+export interface Restart {
+  kind: RestartKind;
+  team: Team; // Team taking it
+  spot: Vector2; // Where the ball left the pitch or where the restart is taken from
+}
+
+const opponentOf = (team: Team) => team === Team.BLUE ? Team.RED : Team.BLUE;
+
+/**
+ * Restart due if the ball has left the field of play, or null while it's in.
+ * Touchlines are the lines in front of the ad boards and the whole ball has to be
+ * over them; the bylines are the canvas edges, checked like goals. The restart
+ * goes against the team that touched the ball last.
+ */
+export const outOfPlayRestart = (ball: Ball, lastTouchTeam: Team | null, config: GameConfig): Restart | null => {
+  const w = config.pitchWidth;
+  const h = config.pitchHeight;
+  const top = PITCH.adBoardHeight;
+  const bottom = h - PITCH.adBoardHeight;
+
+  if (ball.pos.y < top - ball.radius || ball.pos.y > bottom + ball.radius) {
+    // Never touched (straight off the kickoff): the team defending that half throws it in
+    const team = lastTouchTeam ? opponentOf(lastTouchTeam) : ball.pos.x < w / 2 ? Team.BLUE : Team.RED;
+    const x = Math.max(ball.radius, Math.min(w - ball.radius, ball.pos.x));
+    return { kind: 'throwIn', team, spot: { x, y: ball.pos.y < h / 2 ? top : bottom } };
+  }
+
+  if ((ball.pos.x < 0 || ball.pos.x > w) && !inGoalMouth(ball.pos.y, config)) {
+    const defending = ball.pos.x < 0 ? Team.BLUE : Team.RED;
+    const goalLineX = ball.pos.x < 0 ? 0 : w;
+    const inward = ball.pos.x < 0 ? 1 : -1;
+    const side = ball.pos.y < h / 2 ? -1 : 1;
+    if (lastTouchTeam === defending) {
+      const cornerY = side < 0 ? top + ball.radius : bottom - ball.radius;
+      return { kind: 'corner', team: opponentOf(defending), spot: { x: goalLineX + inward * ball.radius, y: cornerY } };
+    }
+    const goalKickY = h / 2 + side * PITCH.goalAreaWidth / 4;
+    return { kind: 'goalKick', team: defending, spot: { x: goalLineX + inward * PITCH.goalAreaDepth, y: goalKickY } };
+  }
+
+  return null;
+};
+
+/** Whether `pos` is inside the penalty area in front of `team`'s own goal. */
+export const inPenaltyArea = (pos: Vector2, team: Team, config: GameConfig) => {
+  const fromGoalLine = team === Team.BLUE ? pos.x : config.pitchWidth - pos.x;
+  return fromGoalLine < PITCH.penaltyAreaDepth && Math.abs(pos.y - config.pitchHeight / 2) < PITCH.penaltyAreaWidth / 2;
+};
+
+/** A foul in the offender's own penalty area is a penalty, anywhere else a direct free kick. */
+export const restartFor = (offender: Player, victim: Player, config: GameConfig): RestartKind =>
+  inPenaltyArea(victim.pos, offender.team, config) ? 'penalty' : 'freeKick';
@@ -0,0 +1,180 @@
+import { Difficulty, GameConfig, MatchInputs, MatchReplay, MatchRules, MatchState, Rosters, Team, TeamSetups } from '../types';
+import { isTeamSetups } from './formation';
+import { createMatchState, periodKickoffTeam, startPeriod, step } from './match';
+import { isRosters, rostersWithDefaultAttributes } from './roster';
+import { isMatchRules } from './rules';
+
+// A replay is just the seed, the pitch config, the AI difficulty, both teams' formations, tactics
+// and rosters, the match rules, and every tick's inputs. Because
+// `step` is deterministic, re-simulating those inputs reproduces the match exactly.
+
+export const REPLAY_FORMAT = 'creative-soccer-replay';
+export const REPLAY_VERSION = 8; // v2: inputs carry pass and switchPlayer; v3: tackle; v4: difficulty; v5: teams; v6: sprint; v7: rosters; v8: rules
+
+const KEYFRAME_INTERVAL = 120; // Ticks between cached states when scrubbing
+
+export interface ReplayRecorder {
+  record: (inputs: MatchInputs) => void;
+  newPeriod: () => void; // Call whenever the match does startPeriod between periods
+  finish: () => MatchReplay;
+}
+
+export const createReplayRecorder = (seed: number, config: GameConfig, difficulty: Difficulty, teams: TeamSetups, rosters: Rosters, rules: MatchRules): ReplayRecorder => {
+  const periods: MatchInputs[][] = [[]];
+  return {
+    record: inputs => { periods[periods.length - 1].push(inputs); },
+    newPeriod: () => { periods.push([]); },
+    finish: () => ({ version: REPLAY_VERSION, seed, config, difficulty, teams, rosters, rules, periods: periods.map(p => [...p]) }),
+  };
+};
+
+export interface ReplayTimeline {
+  totalTicks: number;
+  periodStarts: number[]; // Tick index at which each period begins
+  stateAt: (tick: number) => MatchState; // State after `tick` ticks have been simulated
+}
+
+/**
+ * Re-simulates a replay once, caching a keyframe every KEYFRAME_INTERVAL ticks,
+ * so that any tick can be reached by stepping at most that many ticks.
+ */
+export const createReplayTimeline = (replay: MatchReplay): ReplayTimeline => {
+  const frames = replay.periods.flat();
+  const periodStarts: number[] = [];
+  let offset = 0;
+  replay.periods.forEach(period => {
+    periodStarts.push(offset);
+    offset += period.length;
+  });
+  const periodAt = new Map(periodStarts.map((tick, i) => [tick, i + 1]));
+
+  const advance = (state: MatchState, tick: number): MatchState => {
+    const period = tick > 0 ? periodAt.get(tick) : undefined;
+    const current = period ? startPeriod(state, periodKickoffTeam(period), replay.config) : state;
+    return step(current, frames[tick], replay.config).state;
+  };
+
+  const keyframes: MatchState[] = [];
+  let state = createMatchState(replay.seed, replay.config, replay.difficulty, replay.teams, replay.rosters);
+  for (let tick = 0; tick < frames.length; tick++) {
+    if (tick % KEYFRAME_INTERVAL === 0) keyframes.push(state);
+    state = advance(state, tick);
+  }
+  if (frames.length % KEYFRAME_INTERVAL === 0) keyframes.push(state);
+
+  // Sequential playback asks for tick, tick+1, ... so keep the last two results around
+  let cursor = { tick: 0, state: keyframes[0], prev: keyframes[0] };
+
+  const stateAt = (requested: number): MatchState => {
+    const tick = Math.max(0, Math.min(frames.length, Math.floor(requested)));
+    if (tick === cursor.tick) return cursor.state;
+    if (tick === cursor.tick - 1) return cursor.prev;
+
+    let from = cursor.tick;
+    let s = cursor.state;
+    if (tick < cursor.tick || tick - cursor.tick > KEYFRAME_INTERVAL) {
+      from = Math.floor(tick / KEYFRAME_INTERVAL) * KEYFRAME_INTERVAL;
+      s = keyframes[from / KEYFRAME_INTERVAL];
+    }
+    let prev = s;
+    for (let t = from; t < tick; t++) {
+      prev = s;
+      s = advance(s, t);
+    }
+    cursor = { tick, state: s, prev };
+    return s;
+  };
+
+  return { totalTicks: frames.length, periodStarts, stateAt };
+};
+
+// --- JSON export / import ---
+
+// Consecutive identical inputs are stored once with a repeat count: [count, inputs]
+type EncodedPeriod = [number, MatchInputs][];
+
+interface ReplayFile {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  recordedAt: string;
+  seed: number;
+  config: GameConfig;
+  difficulty: Difficulty;
+  teams: TeamSetups;
+  rosters: Rosters;
+  rules: MatchRules;
+  periods: EncodedPeriod[];
+}
+
+const sameInputs = (a: MatchInputs, b: MatchInputs) => JSON.stringify(a) === JSON.stringify(b);
+
+const encodePeriod = (frames: MatchInputs[]): EncodedPeriod => {
+  const runs: EncodedPeriod = [];
+  frames.forEach(inputs => {
+    const last = runs[runs.length - 1];
+    if (last && sameInputs(last[1], inputs)) last[0]++;
+    else runs.push([1, inputs]);
+  });
+  return runs;
+};
+
+const decodePeriod = (runs: EncodedPeriod): MatchInputs[] =>
+  runs.flatMap(([count, inputs]) => Array.from({ length: count }, () => inputs));
+
+export const serializeReplay = (replay: MatchReplay): string => {
+  const file: ReplayFile = {
+    format: REPLAY_FORMAT,
+    version: replay.version,
+    recordedAt: new Date().toISOString(),
+    seed: replay.seed,
+    config: replay.config,
+    difficulty: replay.difficulty,
+    teams: replay.teams,
+    rosters: replay.rosters,
+    rules: replay.rules,
+    periods: replay.periods.map(encodePeriod),
+  };
+  return JSON.stringify(file);
+};
+
+const isInputs = (value: any): value is MatchInputs =>
+  value && typeof value === 'object' &&
+  Object.entries(value).every(([team, input]: [string, any]) =>
+    (team === Team.BLUE || team === Team.RED) &&
+    typeof input?.move?.x === 'number' && typeof input?.move?.y === 'number' &&
+    typeof input?.shoot === 'boolean' && typeof input?.pass === 'boolean' && typeof input?.switchPlayer === 'boolean' &&
+    typeof input?.tackle === 'boolean' && typeof input?.sprint === 'boolean');
+
+/** Parses an exported replay file. Throws with a user-facing message if it isn't one we can play. */
+export const parseReplay = (text: string): MatchReplay => {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('리플레이 파일을 읽을 수 없습니다 (JSON 형식 오류).');
+  }
+
+  if (file?.format !== REPLAY_FORMAT) throw new Error('축구 게임 리플레이 파일이 아닙니다.');
+  if (file.version !== REPLAY_VERSION) throw new Error(`지원하지 않는 리플레이 버전입니다 (v${file.version}).`);
+
+  const validPeriods = Array.isArray(file.periods) && file.periods.every((period: any) =>
+    Array.isArray(period) && period.every((run: any) =>
+      Array.isArray(run) && Number.isInteger(run[0]) && run[0] > 0 && isInputs(run[1])));
+  const validDifficulty = Object.values(Difficulty).includes(file.difficulty);
+  // Recorded before players had their own ratings: they played with their role's defaults
+  if (isTeamSetups(file.teams)) file.rosters = rostersWithDefaultAttributes(file.rosters, file.teams);
+  if (typeof file.seed !== 'number' || typeof file.config?.pitchWidth !== 'number' || !validDifficulty || !isTeamSetups(file.teams) || !isRosters(file.rosters) || !isMatchRules(file.rules) || !validPeriods) {
+    throw new Error('리플레이 파일이 손상되었습니다.');
+  }
+
+  return {
+    version: file.version,
+    seed: file.seed,
+    config: file.config,
+    difficulty: file.difficulty,
+    teams: file.teams,
+    rosters: file.rosters,
+    rules: file.rules,
+    periods: (file.periods as EncodedPeriod[]).map(decodePeriod),
+  };
+};
@@ -0,0 +1,58 @@
+import { ROLE_ATTRIBUTES } from '../constants';
+import { Player, PlayerAttributes, PlayerRole, Rosters, Team, TeamRoster, TeamSetups } from '../types';
+
+export const TEAM_NAME_MAX = 12;
+export const SHORT_CODE_MAX = 4;
+export const PLAYER_NAME_MAX = 10;
+
+/** "9번 김민준", or just "9번" for a player without a name. */
+export const playerLabel = (roster: TeamRoster, p: Player): string => {
+  const name = roster.players[p.slot]?.name;
+  return name ? `${p.jerseyNum}번 ${name}` : `${p.jerseyNum}번`;
+};
+
+/** Shirt numbers that appear more than once in the squad. */
+export const duplicateNumbers = (roster: TeamRoster): number[] =>
+  roster.players.map(p => p.number).filter((n, i, all) => all.indexOf(n) !== i);
+
+export const ATTRIBUTE_LABELS: { [key in keyof PlayerAttributes]: string } = {
+  pace: '속도',
+  acceleration: '가속',
+  shotPower: '슛 파워',
+  accuracy: '정확도',
+  tackling: '태클',
+  keeping: '골키핑',
+};
+
+const isAttributes = (value: any): value is PlayerAttributes =>
+  (Object.keys(ATTRIBUTE_LABELS) as (keyof PlayerAttributes)[]).every(key => typeof value?.[key] === 'number' && value[key] >= 0 && value[key] <= 1);
+
+/**
+ * Squads saved before players had their own ratings: everyone gets the defaults for the
+ * role they lined up in, `roles` by slot, which is what they played with back then.
+ */
+export const withDefaultAttributes = (roster: any, roles: PlayerRole[]) =>
+  Array.isArray(roster?.players)
+    ? { ...roster, players: roster.players.map((p: any, slot: number) => p && p.attributes === undefined && roles[slot] ? { ...p, attributes: { ...ROLE_ATTRIBUTES[roles[slot]] } } : p) }
+    : roster;
+
+/** withDefaultAttributes for both teams, each in its own formation. */
+export const rostersWithDefaultAttributes = (rosters: any, teams: TeamSetups) =>
+  rosters && typeof rosters === 'object'
+    ? { ...rosters, ...Object.fromEntries([Team.BLUE, Team.RED].map(team => [team, withDefaultAttributes(rosters[team], teams[team].formation.map(slot => slot.role))])) }
+    : rosters;
+
+const isColor = (value: any) => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const isText = (value: any, max: number, allowEmpty: boolean) =>
+  typeof value === 'string' && value.length <= max && (allowEmpty || value.trim().length > 0);
+
+export const isTeamRoster = (roster: any): roster is TeamRoster =>
+  isText(roster?.name, TEAM_NAME_MAX, false) && isText(roster.shortCode, SHORT_CODE_MAX, false) &&
+  isColor(roster.primaryColor) && isColor(roster.secondaryColor) &&
+  Array.isArray(roster.players) && roster.players.length === 5 &&
+  roster.players.every((p: any) => isText(p?.name, PLAYER_NAME_MAX, true) && Number.isInteger(p.number) && p.number >= 1 && p.number <= 99 && isAttributes(p.attributes));
+
+/** Checks rosters read back from a replay file or saved settings. */
+export const isRosters = (value: any): value is Rosters =>
+  [Team.BLUE, Team.RED].every(team => isTeamRoster(value?.[team]));
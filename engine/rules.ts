@@ -0,0 +1,30 @@
+import { MatchRules, TieBreak } from '../types';
+
+export const PERIOD_OPTIONS = [1, 2, 4];
+export const PERIOD_LENGTH_OPTIONS = [30, 60, 90, 120, 180]; // Seconds
+
+export const TIE_BREAK_LABELS: { [key in TieBreak]: string } = {
+  [TieBreak.NONE]: '무승부 인정',
+  [TieBreak.GOLDEN_GOAL]: '골든골 연장전',
+  [TieBreak.SHOOTOUT]: '승부차기',
+};
+
+/** Whether `period` (1-based) is extra time rather than normal time. */
+export const isExtraTime = (rules: MatchRules, period: number) => period > rules.periods;
+
+/** "2쿼터", "전반", "후반", "경기" or "연장전". */
+export const periodName = (rules: MatchRules, period: number): string => {
+  if (isExtraTime(rules, period)) return '연장전';
+  if (rules.periods === 1) return '경기';
+  if (rules.periods === 2) return period === 1 ? '전반' : '후반';
+  return `${period}쿼터`;
+};
+
+/** The same format for a tie that must have a winner: a draw goes to penalties unless golden goal was chosen. */
+export const decisiveRules = (rules: MatchRules): MatchRules =>
+  rules.tieBreak === TieBreak.NONE ? { ...rules, tieBreak: TieBreak.SHOOTOUT } : rules;
+
+/** Checks rules read back from saved settings or a replay file. */
+export const isMatchRules = (value: any): value is MatchRules =>
+  PERIOD_OPTIONS.includes(value?.periods) && PERIOD_LENGTH_OPTIONS.includes(value.periodLength) &&
+  Object.values(TieBreak).includes(value.tieBreak);
@@ -0,0 +1,210 @@
+import { PHYSICS, PITCH } from '../constants';
+import { Ball, GameConfig, MatchState, Player, PlayerRole, RestartKind, SetPieceKind, Team, Vector2 } from '../types';
+import { kickoffSpot } from './formation';
+import { dist, length, normalize } from './vector';
+
+// Dead-ball restarts. Instead of resetting everyone to the kickoff shape, the ball
+// is placed where the restart is taken, the taker is stood behind it facing where
+// the kick would normally go and everyone else is moved just far enough to be legal.
+// Kickoffs are the exception: the players walk back to the kickoff shape themselves.
+
+const WALK_EFFORT = 0.75; // Fraction of running effort players walk back to a kickoff with
+const WALK_SPEED = 130; // px/s that gets an average player to, for timing the walk
+const ARRIVE_DISTANCE = 30; // px from their position at which walking players start to slow down
+
+// Keep a position on the pitch, inside the touchlines
+const clampToPitch = (pos: Vector2, margin: number, config: GameConfig): Vector2 => ({
+  x: Math.max(margin, Math.min(config.pitchWidth - margin, pos.x)),
+  y: Math.max(PITCH.adBoardHeight + margin, Math.min(config.pitchHeight - PITCH.adBoardHeight - margin, pos.y)),
+});
+
+// Keep a position on the canvas; takers at throw-ins and corners stand off the pitch
+const clampToCanvas = (pos: Vector2, margin: number, config: GameConfig): Vector2 => ({
+  x: Math.max(margin, Math.min(config.pitchWidth - margin, pos.x)),
+  y: Math.max(margin, Math.min(config.pitchHeight - margin, pos.y)),
+});
+
+// Where `p` stands directly behind `spot`, looking towards `target`
+const behind = (p: Player, spot: Vector2, target: Vector2, ballRadius: number, config: GameConfig) => {
+  const dir = normalize({ x: target.x - spot.x, y: target.y - spot.y });
+  const back = p.radius + ballRadius + 4;
+  return { pos: clampToCanvas({ x: spot.x - dir.x * back, y: spot.y - dir.y * back }, p.radius, config), facing: dir };
+};
+
+const placeBehind = (p: Player, spot: Vector2, target: Vector2, ballRadius: number, config: GameConfig) => {
+  const { pos, facing } = behind(p, spot, target, ballRadius, config);
+  p.pos = pos;
+  p.facing = facing;
+};
+
+// Move `p` straight away from `spot` until they are `distance` from it
+const pushAway = (p: Player, spot: Vector2, distance: number, fallbackDir: Vector2, config: GameConfig) => {
+  if (dist(p.pos, spot) >= distance) return;
+  const dir = dist(p.pos, spot) > 0.01 ? normalize({ x: p.pos.x - spot.x, y: p.pos.y - spot.y }) : fallbackDir;
+  p.pos = clampToPitch({ x: spot.x + dir.x * distance, y: spot.y + dir.y * distance }, p.radius, config);
+};
+
+/** Who takes a restart: the goalkeeper for a goal kick, otherwise the nearest outfield player. */
+export const setPieceTaker = (players: Player[], kind: SetPieceKind, team: Team, spot: Vector2): Player => {
+  const squad = players.filter(p => p.team === team);
+  const keeper = squad.find(p => p.role === PlayerRole.GOALKEEPER);
+  if (kind === 'goalKick' && keeper) return keeper;
+  const outfield = squad.filter(p => p.role !== PlayerRole.GOALKEEPER);
+  return outfield.reduce((best, p) => dist(p.pos, spot) < dist(best.pos, spot) ? p : best, outfield[0] ?? squad[0]);
+};
+
+/**
+ * Stops play and sets up a restart for `taker`'s team with the ball at `spot`
+ * (ignored for a penalty, which always goes on the spot). Mutates `state`; play
+ * resumes once the taker kicks or throws the ball.
+ */
+export const awardSetPiece = (state: MatchState, kind: RestartKind, taker: Player, spot: Vector2, config: GameConfig) => {
+  const { players, ball } = state;
+  const team = taker.team;
+  const w = config.pitchWidth;
+  const h = config.pitchHeight;
+  const attackDir = team === Team.BLUE ? 1 : -1;
+  const goal = { x: team === Team.BLUE ? w : 0, y: h / 2 };
+  const penaltySpot = { x: goal.x - attackDir * PITCH.penaltySpotDistance, y: h / 2 };
+
+  players.forEach(p => {
+    p.vel = { x: 0, y: 0 };
+    p.slideTime = 0;
+    p.diveTime = 0;
+    p.cooldown = 0;
+  });
+
+  const ballSpot = kind === 'penalty' ? penaltySpot : clampToPitch(spot, ball.radius, config);
+
+  if (kind === 'penalty') {
+    const defendingTeam = team === Team.BLUE ? Team.RED : Team.BLUE;
+    const boxEdgeX = goal.x - attackDir * (PITCH.penaltyAreaDepth + 15);
+    players.forEach(p => {
+      if (p.id === taker.id) return;
+      if (p.team === defendingTeam && p.role === PlayerRole.GOALKEEPER) {
+        p.pos = { x: goal.x - attackDir * (p.radius + 2), y: h / 2 };
+        p.facing = { x: -attackDir, y: 0 };
+        return;
+      }
+      // Everyone else waits outside the area, level with or behind the box edge
+      const insideBox = attackDir === 1 ? p.pos.x > boxEdgeX : p.pos.x < boxEdgeX;
+      if (insideBox) p.pos = clampToPitch({ x: boxEdgeX, y: p.pos.y }, p.radius, config);
+    });
+  } else {
+    // Opponents back off towards the goal they are defending
+    const distance = kind === 'throwIn' ? PHYSICS.throwInDistance : PHYSICS.wallDistance;
+    players.forEach(p => {
+      if (p.team !== team) pushAway(p, ballSpot, distance, { x: attackDir, y: 0 }, config);
+    });
+  }
+
+  // Where the taker lines up: at goal for kicks, the penalty spot for a corner,
+  // upfield for a goal kick and straight into the pitch for a throw-in
+  const aimAt: { [key in RestartKind]: Vector2 } = {
+    freeKick: goal,
+    penalty: goal,
+    corner: penaltySpot,
+    goalKick: { x: w / 2, y: ballSpot.y },
+    throwIn: { x: ballSpot.x, y: h / 2 },
+  };
+  placeBehind(taker, ballSpot, aimAt[kind], ball.radius, config);
+
+  ball.pos = { ...ballSpot };
+  ball.vel = { x: 0, y: 0 };
+  ball.ownerId = null;
+  ball.lastTouchId = null;
+
+  state.activePlayerIds[team] = taker.id;
+  state.switchHold = { [Team.BLUE]: 0, [Team.RED]: 0 };
+  state.shotCharge = { [Team.BLUE]: 0, [Team.RED]: 0 };
+  state.setPiece = { kind, team, takerId: taker.id, wait: PHYSICS.setPieceWait };
+};
+
+/** A throw-in has to go back into the pitch and can't be struck as hard as a kick. */
+export const limitThrow = (ball: Ball, config: GameConfig) => {
+  const intoPitch = ball.pos.y < config.pitchHeight / 2 ? 1 : -1;
+  if (ball.vel.y * intoPitch < 0) ball.vel.y = -ball.vel.y;
+
+  const speed = length(ball.vel);
+  if (speed > PHYSICS.maxThrowSpeed) {
+    ball.vel.x = (ball.vel.x / speed) * PHYSICS.maxThrowSpeed;
+    ball.vel.y = (ball.vel.y / speed) * PHYSICS.maxThrowSpeed;
+  }
+};
+
+const formationKickoffSpot = (p: Player, state: MatchState, config: GameConfig) =>
+  kickoffSpot(state.teams[p.team].formation[p.slot], p.team, state.teams[p.team].tactics, config);
+
+/**
+ * Where `p` lines up for the kickoff in `state.setPiece`: the taker just behind the ball,
+ * turned to play it back to a teammate, and everyone else on their kickoff spot, with
+ * the side not kicking off outside the centre circle.
+ */
+export const kickoffPosition = (p: Player, state: MatchState, config: GameConfig): { pos: Vector2; facing: Vector2 } => {
+  const setPiece = state.setPiece!;
+  const centre = { x: config.pitchWidth / 2, y: config.pitchHeight / 2 };
+  const ownGoal = { x: p.team === Team.BLUE ? 0 : config.pitchWidth, y: config.pitchHeight / 2 };
+  if (p.id === setPiece.takerId) return behind(p, centre, ownGoal, state.ball.radius, config);
+
+  let pos = formationKickoffSpot(p, state, config);
+  const clearance = PITCH.centreCircleRadius + p.radius;
+  if (p.team !== setPiece.team && dist(pos, centre) < clearance) {
+    const dir = dist(pos, centre) > 0.01 ? normalize({ x: pos.x - centre.x, y: pos.y - centre.y }) : normalize({ x: ownGoal.x - centre.x, y: 0 });
+    pos = { x: centre.x + dir.x * clearance, y: centre.y + dir.y * clearance };
+  }
+  return { pos, facing: { x: p.team === Team.BLUE ? 1 : -1, y: 0 } };
+};
+
+/** Puts every player in position for the kickoff in `state.setPiece`. */
+export const lineUpForKickoff = (state: MatchState, config: GameConfig) => {
+  state.players.forEach(p => {
+    const { pos, facing } = kickoffPosition(p, state, config);
+    p.pos = pos;
+    p.facing = facing;
+    p.vel = { x: 0, y: 0 };
+  });
+};
+
+/**
+ * Stops play for a kickoff by `team` with the ball on the centre spot; the taker is
+ * whoever lines up nearest it. With `lineUp` everyone is put straight into position,
+ * as at the start of a period. Otherwise (after a goal) they walk back while the kickoff
+ * waits, for as long as the furthest of them needs. Mutates `state`.
+ */
+export const awardKickoff = (state: MatchState, team: Team, config: GameConfig, lineUp: boolean) => {
+  const { players, ball } = state;
+  const centre = { x: config.pitchWidth / 2, y: config.pitchHeight / 2 };
+  const squad = players.filter(p => p.team === team);
+  const outfield = squad.filter(p => p.role !== PlayerRole.GOALKEEPER);
+  const taker = (outfield.length > 0 ? outfield : squad).reduce((best, p) =>
+    dist(formationKickoffSpot(p, state, config), centre) < dist(formationKickoffSpot(best, state, config), centre) ? p : best);
+
+  players.forEach(p => {
+    p.slideTime = 0;
+    p.diveTime = 0;
+  });
+  ball.pos = centre;
+  ball.vel = { x: 0, y: 0 };
+  ball.ownerId = null;
+  ball.lastTouchId = null;
+
+  state.activePlayerIds[team] = taker.id;
+  state.switchHold = { [Team.BLUE]: 0, [Team.RED]: 0 };
+  state.shotCharge = { [Team.BLUE]: 0, [Team.RED]: 0 };
+  state.setPiece = { kind: 'kickoff', team, takerId: taker.id, wait: PHYSICS.setPieceWait };
+  if (lineUp) {
+    lineUpForKickoff(state, config);
+    return;
+  }
+  const furthest = Math.max(...players.map(p => dist(p.pos, kickoffPosition(p, state, config).pos)));
+  state.setPiece.wait = Math.min(PHYSICS.kickoffMaxWait, Math.max(PHYSICS.kickoffMinWait, furthest / WALK_SPEED));
+};
+
+/** Move target for a player walking back into position before a kickoff, easing off as they arrive. */
+export const walkToKickoff = (p: Player, state: MatchState, config: GameConfig): Vector2 => {
+  const { pos } = kickoffPosition(p, state, config);
+  const d = dist(p.pos, pos);
+  if (d < 1) return { x: 0, y: 0 };
+  const effort = WALK_EFFORT * Math.min(1, d / ARRIVE_DISTANCE);
+  return { x: ((pos.x - p.pos.x) / d) * effort, y: ((pos.y - p.pos.y) / d) * effort };
+};
@@ -0,0 +1,109 @@
+import { CONFIG, PHYSICS, TICK_DT } from '../constants';
+import { GameConfig, MatchInputs, MatchState, PlayerRole, Shootout, Team } from '../types';
+import { resetPositions, step } from './match';
+import { awardSetPiece } from './setPiece';
+import { length } from './vector';
+
+// Penalty shootout. Each kick is played out with the match engine on a copy of the
+// match state stripped down to the taker and the opposing keeper, so the penalty
+// set piece, the keeper's dive and the goal check all work as they do in a match.
+// Keepers are always AI; a human side only takes its kicks.
+
+export const SHOOTOUT_ROUNDS = 5; // Kicks each before sudden death
+const TAKE_TIME = 5; // s after the whistle a human has to take the kick before it's taken for them
+const KICK_TIME = 2.5; // s after the kick for the ball to go in
+const STOPPED_SPEED = 30; // px/s; a ball this slow that hasn't gone in never will
+
+const opponent = (team: Team) => team === Team.BLUE ? Team.RED : Team.BLUE;
+
+export const createShootout = (firstTeam: Team): Shootout => ({ firstTeam, kicks: [] });
+
+export const shootoutScore = (shootout: Shootout): { [key in Team]: number } => ({
+  [Team.BLUE]: shootout.kicks.filter(k => k.team === Team.BLUE && k.scored).length,
+  [Team.RED]: shootout.kicks.filter(k => k.team === Team.RED && k.scored).length,
+});
+
+/** The winner once one side can't be caught, or after a round of sudden death; null while it's open. */
+export const shootoutWinner = (shootout: Shootout): Team | null => {
+  const first = shootout.firstTeam;
+  const second = opponent(first);
+  const score = shootoutScore(shootout);
+  const taken = (team: Team) => shootout.kicks.filter(k => k.team === team).length;
+
+  if (taken(first) <= SHOOTOUT_ROUNDS && taken(second) <= SHOOTOUT_ROUNDS) {
+    if (score[first] > score[second] + SHOOTOUT_ROUNDS - taken(second)) return first;
+    if (score[second] > score[first] + SHOOTOUT_ROUNDS - taken(first)) return second;
+  }
+  // Sudden death is only decided once both have kicked in the round
+  if (taken(first) === taken(second) && taken(first) >= SHOOTOUT_ROUNDS && score[first] !== score[second]) {
+    return score[first] > score[second] ? first : second;
+  }
+  return null;
+};
+
+/** Who takes the next kick: teams alternate, outfield players from the front line back, then the keeper. */
+export const nextKicker = (shootout: Shootout, match: MatchState): { team: Team; takerId: number } => {
+  const team = shootout.kicks.length % 2 === 0 ? shootout.firstTeam : opponent(shootout.firstTeam);
+  const order = match.players
+    .filter(p => p.team === team)
+    .sort((a, b) => Number(a.role === PlayerRole.GOALKEEPER) - Number(b.role === PlayerRole.GOALKEEPER) || b.slot - a.slot);
+  const taken = shootout.kicks.filter(k => k.team === team).length;
+  return { team, takerId: order[taken % order.length].id };
+};
+
+// One kick in progress
+export interface PenaltyKick {
+  state: MatchState; // Just the taker and the keeper
+  team: Team;
+  takerId: number;
+  time: number; // Seconds since the kick was set up
+  kickedAt: number | null; // `time` when the ball was struck
+}
+
+/** Sets up the next kick of `shootout` from the players (and random state) of `match`. */
+export const startPenaltyKick = (match: MatchState, shootout: Shootout, config: GameConfig = CONFIG): PenaltyKick => {
+  const { team, takerId } = nextKicker(shootout, match);
+  const reset = resetPositions(match, config);
+  const taker = reset.players.find(p => p.id === takerId)!;
+  const keeper = reset.players.find(p => p.team !== team && p.role === PlayerRole.GOALKEEPER)!;
+  const state: MatchState = { ...reset, players: [taker, keeper] };
+  awardSetPiece(state, 'penalty', taker, taker.pos, config);
+  state.activePlayerIds[keeper.team] = keeper.id;
+  return { state, team, takerId, time: 0, kickedAt: null };
+};
+
+/**
+ * Advances a kick by one tick. `inputs` are only used for the shooting side, and only
+ * until the kick is taken (or its time to take it runs out). Returns whether it went
+ * in once that's known, null while the ball is still on its way.
+ */
+export const stepPenaltyKick = (kick: PenaltyKick, inputs: MatchInputs, config: GameConfig = CONFIG): { kick: PenaltyKick; scored: boolean | null } => {
+  const input = inputs[kick.team];
+  const human = input && kick.kickedAt === null && kick.time < PHYSICS.setPieceWait + TAKE_TIME;
+  const { state, events } = step(kick.state, human ? { [kick.team]: input } : {}, config);
+
+  const time = kick.time + TICK_DT;
+  const struck = events.some(e => (e.type === 'kick' || e.type === 'pass') && e.playerId === kick.takerId);
+  const next: PenaltyKick = { ...kick, state, time, kickedAt: kick.kickedAt ?? (struck ? time : null) };
+
+  if (events.some(e => e.type === 'goal')) return { kick: next, scored: true };
+  if (next.kickedAt === null) return { kick: next, scored: null };
+
+  const stopped = events.some(e => e.type === 'save' || e.type === 'out' || e.type === 'foul' || (e.type === 'possession' && e.playerId !== null));
+  const dead = time - next.kickedAt > KICK_TIME || length(state.ball.vel) < STOPPED_SPEED;
+  return { kick: next, scored: stopped || dead ? false : null };
+};
+
+/** Plays a whole shootout out with both sides on AI, continuing `match`'s random state. */
+export const simulateShootout = (match: MatchState, firstTeam: Team, config: GameConfig = CONFIG): Shootout => {
+  let shootout = createShootout(firstTeam);
+  let base = match;
+  while (shootoutWinner(shootout) === null) {
+    let kick = startPenaltyKick(base, shootout, config);
+    let scored: boolean | null = null;
+    while (scored === null) ({ kick, scored } = stepPenaltyKick(kick, {}, config));
+    shootout = { ...shootout, kicks: [...shootout.kicks, { team: kick.team, takerId: kick.takerId, scored }] };
+    base = { ...base, rngState: kick.state.rngState };
+  }
+  return shootout;
+};
@@ -0,0 +1,189 @@
+import { TICK_DT } from '../constants';
+import { GameConfig, HeatGrid, MatchEvent, MatchPhase, MatchState, MatchStats, Player, PlayerStats, ShotRecord, Team, Vector2 } from '../types';
+import { projectToLine } from './goalkeeper';
+import { inGoalMouth } from './referee';
+
+// Match statistics are counted from the events `step` emits plus a look at the state after
+// each tick; nothing in the simulation depends on them. A kick counts as a shot if, friction
+// included, it would reach the goal line near the goal, and as on target if it would go in.
+// A pass is completed if a teammate is the next player to touch the ball. Player and ball
+// positions are sampled onto coarse grids for the post-match heatmaps.
+
+const SHOT_MARGIN = 40; // px either side of the goal mouth a kick may be headed and still count as a shot
+const HEAT_CELL = 20; // px per heatmap cell
+const HEAT_SAMPLE_TICKS = 6; // Sample positions ten times a second
+
+export type TeamStats = Omit<PlayerStats, 'playerId' | 'team' | 'slot' | 'jerseyNum'> & {
+  possession: number; // Share of the match, 0..1
+};
+
+export interface StatsTracker {
+  record: (state: MatchState, events: MatchEvent[], phase: MatchPhase) => void; // Call after every step, with the phase the clock was in for it
+  newPeriod: () => void; // Call whenever the match does startPeriod between periods
+  snapshot: () => MatchStats;
+}
+
+const emptyCounts = () => ({ shots: 0, shotsOnTarget: 0, goals: 0, passes: 0, passesCompleted: 0, tackles: 0, fouls: 0, saves: 0 });
+
+// Where a kick from the attacking half is headed: null if it won't reach the goal line near the goal
+const shotAtGoal = (state: MatchState, shooter: Player, config: GameConfig): { onTarget: boolean } | null => {
+  const goalX = shooter.team === Team.BLUE ? config.pitchWidth : 0;
+  if (Math.abs(goalX - state.ball.pos.x) > config.pitchWidth / 2) return null;
+  const crossing = projectToLine(state.ball, goalX);
+  if (!crossing || Math.abs(crossing.y - config.pitchHeight / 2) > config.goalWidth / 2 + SHOT_MARGIN) return null;
+  return { onTarget: inGoalMouth(crossing.y, config) };
+};
+
+const emptyGrid = (config: GameConfig): HeatGrid => {
+  const cols = Math.ceil(config.pitchWidth / HEAT_CELL);
+  const rows = Math.ceil(config.pitchHeight / HEAT_CELL);
+  return { cols, rows, cells: new Array(cols * rows).fill(0) };
+};
+
+const addSample = (grid: HeatGrid, pos: Vector2) => {
+  const col = Math.min(grid.cols - 1, Math.max(0, Math.floor(pos.x / HEAT_CELL)));
+  const row = Math.min(grid.rows - 1, Math.max(0, Math.floor(pos.y / HEAT_CELL)));
+  grid.cells[row * grid.cols + col]++;
+};
+
+const copyGrid = (grid: HeatGrid): HeatGrid => ({ ...grid, cells: [...grid.cells] });
+
+export const createStatsTracker = (initial: MatchState, config: GameConfig): StatsTracker => {
+  const players: PlayerStats[] = initial.players.map(p => ({ playerId: p.id, team: p.team, slot: p.slot, jerseyNum: p.jerseyNum, ...emptyCounts() }));
+  const heat = { players: Object.fromEntries(players.map(p => [p.playerId, emptyGrid(config)])), ball: emptyGrid(config) };
+  const stats: MatchStats = { possession: { [Team.BLUE]: 0, [Team.RED]: 0 }, players, goals: [], shots: [], heat };
+  const byId = new Map(players.map(p => [p.playerId, p]));
+
+  let period = 1;
+  // Only play counts towards goal times, as on the clock: not kickoffs, set pieces or celebrations
+  let ticks = 0; // Into the current period
+  let matchTicks = 0; // Into the match, over every period so far
+  let sampleTicks = 0; // Every tick, for the heatmaps
+  let inPossession: Team | null = null;
+  let pendingPass: PlayerStats | null = null; // Waiting to see who touches it next
+  let pendingShot: { shooter: PlayerStats; onTarget: boolean; shot: ShotRecord } | null = null; // Until someone else touches it
+  let touch = { id: initial.ball.lastTouchId, pos: { ...initial.ball.pos } }; // Where the ball was last kicked or carried, for unshot goals
+
+  // The ball reached `toucher` (or left play, if null): settles an open pass and ends any open shot
+  const resolveTouch = (toucher: PlayerStats | null) => {
+    if (pendingPass && toucher && toucher.team === pendingPass.team && toucher !== pendingPass) pendingPass.passesCompleted++;
+    pendingPass = null;
+    pendingShot = null;
+  };
+
+  const record = (state: MatchState, events: MatchEvent[], phase: MatchPhase) => {
+    if (phase === MatchPhase.IN_PLAY) {
+      ticks++;
+      matchTicks++;
+    }
+    events.forEach(event => {
+      if (event.type === 'pass' || event.type === 'kick') {
+        const p = byId.get(event.playerId)!;
+        resolveTouch(p);
+        if (event.type === 'pass') {
+          p.passes++;
+          pendingPass = p;
+          return;
+        }
+        const aim = shotAtGoal(state, state.players.find(q => q.id === p.playerId)!, config);
+        if (aim) {
+          p.shots++;
+          if (aim.onTarget) p.shotsOnTarget++;
+          const shot: ShotRecord = { playerId: p.playerId, team: p.team, pos: { ...state.ball.pos }, outcome: 'missed', period };
+          stats.shots.push(shot);
+          pendingShot = { shooter: p, onTarget: aim.onTarget, shot };
+        }
+      } else if (event.type === 'possession') {
+        if (event.playerId !== null) resolveTouch(byId.get(event.playerId)!);
+        if (event.team !== null) inPossession = event.team;
+      } else if (event.type === 'save') {
+        byId.get(event.playerId)!.saves++;
+        if (pendingShot) pendingShot.shot.outcome = 'saved';
+        resolveTouch(byId.get(event.playerId)!);
+      } else if (event.type === 'tackle') {
+        byId.get(event.playerId)!.tackles++;
+      } else if (event.type === 'foul') {
+        byId.get(event.playerId)!.fouls++;
+        resolveTouch(null);
+      } else if (event.type === 'out') {
+        resolveTouch(null);
+      } else if (event.type === 'goal') {
+        const scorer = event.scorerId !== null ? byId.get(event.scorerId) ?? null : null;
+        const ownGoal = !!scorer && scorer.team !== event.team;
+        if (pendingShot?.shooter.team === event.team) pendingShot.shot.outcome = 'goal';
+        if (scorer && !ownGoal) {
+          scorer.goals++;
+          // A goal is always a shot on target, even one that was dribbled or deflected in
+          if (pendingShot?.shooter !== scorer) {
+            scorer.shots++;
+            stats.shots.push({ playerId: scorer.playerId, team: scorer.team, pos: touch.pos, outcome: 'goal', period });
+          }
+          if (pendingShot?.shooter !== scorer || !pendingShot.onTarget) scorer.shotsOnTarget++;
+        }
+        const time = ticks * TICK_DT;
+        stats.goals.push({
+          team: event.team,
+          scorerId: scorer?.playerId ?? null,
+          jerseyNum: scorer?.jerseyNum ?? null,
+          ownGoal,
+          period,
+          time,
+          minute: Math.floor((matchTicks * TICK_DT) / 60) + 1,
+        });
+        resolveTouch(null);
+        inPossession = null; // Kickoff
+      }
+    });
+    if (inPossession) stats.possession[inPossession]++;
+
+    // After a goal the ball is already back on the centre spot, so neither touch nor samples apply
+    if (events.some(e => e.type === 'goal')) return;
+    if (state.ball.ownerId !== null || state.ball.lastTouchId !== touch.id) touch = { id: state.ball.lastTouchId, pos: { ...state.ball.pos } };
+    if (++sampleTicks % HEAT_SAMPLE_TICKS === 0) {
+      state.players.forEach(p => addSample(heat.players[p.id], p.pos));
+      addSample(heat.ball, state.ball.pos);
+    }
+  };
+
+  return {
+    record,
+    newPeriod: () => {
+      period++;
+      ticks = 0;
+      inPossession = null;
+      resolveTouch(null);
+    },
+    snapshot: () => ({
+      possession: { ...stats.possession },
+      players: stats.players.map(p => ({ ...p })),
+      goals: stats.goals.map(g => ({ ...g })),
+      shots: stats.shots.map(shot => ({ ...shot })),
+      heat: {
+        players: Object.fromEntries(Object.entries(heat.players).map(([id, grid]) => [id, copyGrid(grid)])),
+        ball: copyGrid(heat.ball),
+      },
+    }),
+  };
+};
+
+/** Blue's share of possession so far, 0.5 before anyone has had the ball. */
+export const possessionShare = (stats: MatchStats): number => {
+  const total = stats.possession[Team.BLUE] + stats.possession[Team.RED];
+  return total > 0 ? stats.possession[Team.BLUE] / total : 0.5;
+};
+
+/** Several grids added together, e.g. a whole team's. */
+export const sumGrids = (grids: HeatGrid[]): HeatGrid => ({
+  ...grids[0],
+  cells: grids[0].cells.map((_, i) => grids.reduce((sum, grid) => sum + grid.cells[i], 0)),
+});
+
+/** A team's totals: its players' numbers added up, with its share of possession. */
+export const teamStats = (stats: MatchStats, team: Team): TeamStats => {
+  const totals = emptyCounts();
+  stats.players.filter(p => p.team === team).forEach(p => {
+    (Object.keys(totals) as (keyof typeof totals)[]).forEach(key => { totals[key] += p[key]; });
+  });
+  const blueShare = possessionShare(stats);
+  return { ...totals, possession: team === Team.BLUE ? blueShare : 1 - blueShare };
+};
@@ -0,0 +1,29 @@
+import { PHYSICS } from '../constants';
+import { MatchEvent, Player, Vector2 } from '../types';
+import { dist, normalize } from './vector';
+
+// Slide tackles: the player commits along a direction at slide speed, can't steer
+// or touch the ball normally until they are back on their feet, and knocks the
+// ball on if the slide reaches it (see updatePossession).
+
+/** On the ground and still moving, as opposed to getting back up. */
+export const isSliding = (p: Player) => p.slideTime > PHYSICS.slideRecovery;
+
+export const startSlide = (p: Player, direction: Vector2, events: MatchEvent[]) => {
+  const dir = normalize(direction);
+  p.facing = dir;
+  p.vel = { x: dir.x * PHYSICS.slideSpeed, y: dir.y * PHYSICS.slideSpeed };
+  p.slideTime = PHYSICS.slideDuration + PHYSICS.slideRecovery;
+  p.cooldown = Math.max(p.cooldown, p.slideTime);
+  events.push({ type: 'tackle', playerId: p.id });
+};
+
+/** Opponent a sliding player has just run into, if any. */
+export const slideContact = (tackler: Player, players: Player[]): Player | undefined =>
+  players.find(o => o.team !== tackler.team && dist(tackler.pos, o.pos) < tackler.radius + o.radius);
+
+/** Ends the slide where it is; the tackler still has to get up. */
+export const stopSlide = (p: Player) => {
+  p.slideTime = Math.min(p.slideTime, PHYSICS.slideRecovery);
+  p.vel = { x: 0, y: 0 };
+};
@@ -0,0 +1,310 @@
+import { CONFIG, DEFAULT_ROSTERS, DEFAULT_TEAM_SETUPS, TOURNAMENT_KITS } from '../constants';
+import { Difficulty, Fixture, FixtureResult, GameConfig, MatchPhase, MatchRules, Rosters, Standing, Team, TieBreak, Tournament, TournamentFormat, TournamentTeam } from '../types';
+import { createMatchState, periodKickoffTeam, startPeriod, step } from './match';
+import { advanceClock, breakLeadsTo, createMatchClock, kickOff, startShootout } from './phase';
+import { createRng } from './random';
+import { isTeamRoster } from './roster';
+import { decisiveRules, isMatchRules } from './rules';
+import { shootoutScore, simulateShootout } from './shootout';
+
+// Tournament bookkeeping: the draw, fixtures, tables and who goes through. Every
+// function returns a new Tournament rather than changing the one it was given.
+
+export const TEAM_COUNT = { min: 4, max: 16 };
+const MIN_GROUP_SIZE = 3;
+const POINTS = { win: 3, draw: 1 };
+
+/** Group counts that leave every group with at least MIN_GROUP_SIZE teams. */
+export const groupCountOptions = (teamCount: number): number[] =>
+  [1, 2, 4].filter(count => teamCount / count >= MIN_GROUP_SIZE);
+
+export const groupName = (group: number) => `${String.fromCharCode(65 + group)}조`;
+
+/** Placeholder entry for the setup screen: "3반" in the third kit colour, AI-controlled unless it's the first. */
+export const defaultTournamentTeam = (index: number): TournamentTeam => {
+  const kit = TOURNAMENT_KITS[index % TOURNAMENT_KITS.length];
+  return {
+    roster: {
+      ...DEFAULT_ROSTERS[Team.BLUE],
+      name: `${index + 1}반`,
+      shortCode: `${index + 1}반`,
+      primaryColor: kit.primary,
+      secondaryColor: kit.secondary,
+    },
+    human: index === 0,
+    difficulty: Difficulty.NORMAL,
+  };
+};
+
+// Seeded Fisher-Yates, so the same tournament seed always makes the same draw
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Circle method: everyone plays everyone once, `null` sitting out a round when the group is odd
+const roundRobin = (teams: number[]): [number, number][][] => {
+  const ring: (number | null)[] = teams.length % 2 ? [...teams, null] : [...teams];
+  const rounds: [number, number][][] = [];
+  for (let r = 0; r < ring.length - 1; r++) {
+    const pairs: [number, number][] = [];
+    for (let i = 0; i < ring.length / 2; i++) {
+      const a = ring[i];
+      const b = ring[ring.length - 1 - i];
+      // Swap ends every other round so nobody is always at home
+      if (a !== null && b !== null) pairs.push(r % 2 ? [b, a] : [a, b]);
+    }
+    rounds.push(pairs);
+    ring.splice(1, 0, ring.pop()!);
+  }
+  return rounds;
+};
+
+interface BracketSide {
+  team: number | null;
+  from: number | null; // Fixture whose winner fills this side
+}
+
+const isBye = (side: BracketSide) => side.team === null && side.from === null;
+
+// Knockout fixtures for a bracket of 2^n slots in draw order; null slots are byes
+const buildBracket = (slots: (number | null)[], firstId: number): Fixture[] => {
+  const fixtures: Fixture[] = [];
+  let sides: BracketSide[] = slots.map(team => ({ team, from: null }));
+  let round = 1;
+  while (sides.length > 1) {
+    const next: BracketSide[] = [];
+    for (let i = 0; i < sides.length; i += 2) {
+      const [home, away] = [sides[i], sides[i + 1]];
+      if (isBye(away) || isBye(home)) {
+        next.push(isBye(away) ? home : away);
+        continue;
+      }
+      const id = firstId + fixtures.length;
+      fixtures.push({ id, stage: 'knockout', group: null, round, home: home.team, away: away.team, homeFrom: home.from, awayFrom: away.from, result: null });
+      next.push({ team: null, from: id });
+    }
+    sides = next;
+    round++;
+  }
+  return fixtures;
+};
+
+/**
+ * Draws the teams and sets up the opening fixtures: the whole bracket, or every group match.
+ * `rules` are every fixture's, with knockout ties always settled (see decisiveRules).
+ */
+export const createTournament = (name: string, format: TournamentFormat, groupCount: number, teams: TournamentTeam[], seed: number, rules: MatchRules): Tournament => {
+  const decisive = decisiveRules(rules);
+  const random = createRng(seed).next;
+  const drawn = shuffle(teams.map((_, i) => i), random);
+
+  if (format === TournamentFormat.KNOCKOUT) {
+    let size = 2;
+    while (size < drawn.length) size *= 2;
+    // The first few ties get a bye instead of a second team
+    const byes = size - drawn.length;
+    const slots: (number | null)[] = [];
+    let next = 0;
+    for (let pair = 0; pair < size / 2; pair++) {
+      slots.push(drawn[next++], pair < byes ? null : drawn[next++]);
+    }
+    return { name, format, seed, teams, groups: [], fixtures: buildBracket(slots, 0), rules: decisive };
+  }
+
+  const groups = Array.from({ length: groupCount }, (_, g) => drawn.filter((_, i) => i % groupCount === g));
+  const schedules = groups.map(roundRobin);
+  const fixtures: Fixture[] = [];
+  // Round by round across the groups, which is also the order they're listed and played in
+  for (let round = 0; round < Math.max(...schedules.map(s => s.length)); round++) {
+    schedules.forEach((schedule, group) => {
+      (schedule[round] ?? []).forEach(([home, away]) => {
+        fixtures.push({ id: fixtures.length, stage: 'group', group, round: round + 1, home, away, homeFrom: null, awayFrom: null, result: null });
+      });
+    });
+  }
+  return { name, format, seed, teams, groups, fixtures, rules: decisive };
+};
+
+/** Group table, best first: points, then goal difference, then goals scored. */
+export const standings = (tournament: Tournament, group: number): Standing[] => {
+  const rows = new Map<number, Standing>(tournament.groups[group].map(team => [team, { team, played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, points: 0 }]));
+  tournament.fixtures.forEach(f => {
+    if (f.stage !== 'group' || f.group !== group || !f.result || f.home === null || f.away === null) return;
+    const sides: [Standing, number, number][] = [[rows.get(f.home)!, f.result.home, f.result.away], [rows.get(f.away)!, f.result.away, f.result.home]];
+    sides.forEach(([row, scored, conceded]) => {
+      row.played++;
+      row.goalsFor += scored;
+      row.goalsAgainst += conceded;
+      if (scored > conceded) row.won++;
+      else if (scored < conceded) row.lost++;
+      else row.drawn++;
+      row.points = row.won * POINTS.win + row.drawn * POINTS.draw;
+    });
+  });
+  return [...rows.values()].sort((a, b) =>
+    b.points - a.points ||
+    (b.goalsFor - b.goalsAgainst) - (a.goalsFor - a.goalsAgainst) ||
+    b.goalsFor - a.goalsFor ||
+    a.team - b.team);
+};
+
+/** The team that won, or null for a draw or a fixture not yet played. */
+export const winnerOf = (f: Fixture): number | null => {
+  const { result } = f;
+  if (!result) return null;
+  const [home, away] = result.home !== result.away ? [result.home, result.away] : [result.penalties?.home ?? 0, result.penalties?.away ?? 0];
+  return home > away ? f.home : away > home ? f.away : null;
+};
+
+/** Both teams are known and it hasn't been played yet. */
+export const isPlayable = (f: Fixture) => f.home !== null && f.away !== null && !f.result;
+
+export const isAiFixture = (tournament: Tournament, f: Fixture) =>
+  f.home !== null && f.away !== null && !tournament.teams[f.home].human && !tournament.teams[f.away].human;
+
+// Once every group match is in, the top two of each group are drawn into a knockout:
+// group winners against runners-up from the neighbouring group, kept apart until the final
+const startKnockout = (tournament: Tournament): Fixture[] => {
+  const tables = tournament.groups.map((_, g) => standings(tournament, g).map(row => row.team));
+  const firstHalf: number[] = [];
+  const secondHalf: number[] = [];
+  for (let g = 0; g < tables.length; g += 2) {
+    firstHalf.push(tables[g][0], tables[g + 1][1]);
+    secondHalf.push(tables[g + 1][0], tables[g][1]);
+  }
+  return buildBracket([...firstHalf, ...secondHalf], tournament.fixtures.length);
+};
+
+/** Records a result and moves the tournament on: winners into their next tie, groups into the knockout. */
+export const recordResult = (tournament: Tournament, fixtureId: number, result: FixtureResult): Tournament => {
+  const fixtures = tournament.fixtures.map(f => f.id === fixtureId ? { ...f, result } : f);
+  const played = fixtures.find(f => f.id === fixtureId)!;
+  const winner = winnerOf(played);
+  const advanced = fixtures.map(f => ({
+    ...f,
+    home: f.homeFrom === fixtureId ? winner : f.home,
+    away: f.awayFrom === fixtureId ? winner : f.away,
+  }));
+  const next = { ...tournament, fixtures: advanced };
+
+  const groupStageOver = advanced.every(f => f.stage !== 'group' || f.result);
+  const hasKnockout = advanced.some(f => f.stage === 'knockout');
+  if (played.stage === 'group' && groupStageOver && !hasKnockout && tournament.groups.length > 1) {
+    return { ...next, fixtures: [...advanced, ...startKnockout(next)] };
+  }
+  return next;
+};
+
+/** The winner once the final (or, for a single league, the last group match) has been played. */
+export const champion = (tournament: Tournament): number | null => {
+  const knockout = tournament.fixtures.filter(f => f.stage === 'knockout');
+  if (knockout.length > 0) {
+    const final = knockout.reduce((last, f) => f.round > last.round ? f : last);
+    return winnerOf(final);
+  }
+  if (tournament.format === TournamentFormat.GROUPS && tournament.groups.length === 1 && tournament.fixtures.every(f => f.result)) {
+    return standings(tournament, 0)[0].team;
+  }
+  return null;
+};
+
+/** "A조 2라운드", "8강", "준결승", "결승". */
+export const roundName = (tournament: Tournament, f: Fixture): string => {
+  if (f.stage === 'group') return `${groupName(f.group!)} ${f.round}라운드`;
+  const rounds = Math.max(...tournament.fixtures.filter(k => k.stage === 'knockout').map(k => k.round));
+  const teamsLeft = 2 ** (rounds - f.round + 1);
+  return teamsLeft === 2 ? '결승' : teamsLeft === 4 ? '준결승' : `${teamsLeft}강`;
+};
+
+/** Each fixture gets its own seed from the tournament's, so re-running one gives the same match. */
+export const fixtureSeed = (tournament: Tournament, f: Fixture): number =>
+  (tournament.seed ^ Math.imul(f.id + 1, 0x9E3779B1)) >>> 0;
+
+/** The rules a fixture is played under: group games may be drawn, knockout ties may not. */
+export const fixtureRules = (tournament: Tournament, f: Fixture): MatchRules =>
+  f.stage === 'group' ? { ...tournament.rules, tieBreak: TieBreak.NONE } : tournament.rules;
+
+export const fixtureResult = (home: number, away: number, penalties: { home: number; away: number } | null, simulated: boolean): FixtureResult =>
+  ({ home, away, penalties, simulated });
+
+/**
+ * Plays an AI-vs-AI fixture out headlessly with the match engine, each side at its
+ * own difficulty. A full match takes seconds, so the UI runs this in a Web Worker
+ * (see services/simulationService).
+ */
+export const simulateFixture = (tournament: Tournament, f: Fixture, config: GameConfig = CONFIG): FixtureResult => {
+  const home = tournament.teams[f.home!];
+  const away = tournament.teams[f.away!];
+  const rosters: Rosters = { [Team.BLUE]: home.roster, [Team.RED]: away.roster };
+  let state = createMatchState(fixtureSeed(tournament, f), config, away.difficulty, DEFAULT_TEAM_SETUPS, rosters);
+  state = { ...state, aiDifficulty: { [Team.BLUE]: home.difficulty, [Team.RED]: away.difficulty } };
+
+  // Played through the same phase machine as a live match, so the clock stops for restarts and goals
+  const rules = fixtureRules(tournament, f);
+  let clock = kickOff(createMatchClock(rules), rules);
+  while (clock.phase !== MatchPhase.FULL_TIME && clock.phase !== MatchPhase.SHOOTOUT) {
+    if (clock.phase === MatchPhase.PERIOD_BREAK) {
+      if (breakLeadsTo(clock, rules) === 'shootout') {
+        clock = startShootout(clock, rules);
+      } else {
+        clock = kickOff(clock, rules);
+        state = startPeriod(state, periodKickoffTeam(clock.period), config);
+      }
+    } else {
+      const stepped = step(state, {}, config);
+      state = stepped.state;
+      clock = advanceClock(clock, rules, state, stepped.events);
+    }
+  }
+
+  let penalties = null;
+  if (clock.phase === MatchPhase.SHOOTOUT) {
+    const score = shootoutScore(simulateShootout(state, Team.BLUE, config));
+    penalties = { home: score[Team.BLUE], away: score[Team.RED] };
+  }
+  return fixtureResult(clock.score[Team.BLUE], clock.score[Team.RED], penalties, true);
+};
+
+export interface FixtureLineup {
+  blueIsHome: boolean; // The human side always plays as Blue (P1); with two, the home team does
+  rosters: Rosters;
+  difficulty: Difficulty; // Red's, when it's AI-controlled
+  versus: boolean; // Both sides human: a 2P match
+}
+
+/** How a fixture with a human team is set up as a match. */
+export const fixtureLineup = (tournament: Tournament, f: Fixture): FixtureLineup => {
+  const home = tournament.teams[f.home!];
+  const away = tournament.teams[f.away!];
+  const blueIsHome = home.human || !away.human;
+  const [blue, red] = blueIsHome ? [home, away] : [away, home];
+  return {
+    blueIsHome,
+    rosters: { [Team.BLUE]: blue.roster, [Team.RED]: red.roster },
+    difficulty: red.difficulty,
+    versus: blue.human && red.human,
+  };
+};
+
+const isTeamIndex = (value: any, teamCount: number) => value === null || (Number.isInteger(value) && value >= 0 && value < teamCount);
+
+/** Checks a tournament read back from saved settings. */
+export const isTournament = (value: any): value is Tournament => {
+  const teams = value?.teams;
+  if (typeof value?.name !== 'string' || !Object.values(TournamentFormat).includes(value.format) || typeof value.seed !== 'number') return false;
+  if (!Array.isArray(teams) || teams.length < TEAM_COUNT.min || teams.length > TEAM_COUNT.max) return false;
+  const validTeams = teams.every((t: any) =>
+    typeof t?.human === 'boolean' && Object.values(Difficulty).includes(t.difficulty) &&
+    isTeamRoster(t.roster));
+  const validGroups = Array.isArray(value.groups) && value.groups.every((g: any) => Array.isArray(g) && g.every((i: any) => isTeamIndex(i, teams.length) && i !== null));
+  const validFixtures = Array.isArray(value.fixtures) && value.fixtures.every((f: any, i: number) =>
+    f?.id === i && (f.stage === 'group' || f.stage === 'knockout') && Number.isInteger(f.round) &&
+    isTeamIndex(f.home, teams.length) && isTeamIndex(f.away, teams.length) &&
+    (f.result === null || (Number.isInteger(f.result?.home) && Number.isInteger(f.result?.away))));
+  return validTeams && validGroups && validFixtures && isMatchRules(value.rules) && value.rules.tieBreak !== TieBreak.NONE;
+};
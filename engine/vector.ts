@@ -0,0 +1,25 @@
+import { Vector2 } from '../types';
+
+// Small vector helpers shared by the simulation modules
+export const dist = (p1: Vector2, p2: Vector2) => Math.sqrt((p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2);
+
+export const length = (v: Vector2) => Math.sqrt(v.x * v.x + v.y * v.y);
+
+export const normalize = (v: Vector2): Vector2 => {
+  const len = length(v);
+  return len === 0 ? { x: 0, y: 0 } : { x: v.x / len, y: v.y / len };
+};
+
+export const lerp = (a: Vector2, b: Vector2, t: number): Vector2 => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+});
+
+/** Shortest distance from `point` to the segment from `a` to `b`. */
+export const distToSegment = (point: Vector2, a: Vector2, b: Vector2) => {
+  const abx = b.x - a.x;
+  const aby = b.y - a.y;
+  const lenSq = abx * abx + aby * aby;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * abx + (point.y - a.y) * aby) / lenSq));
+  return dist(point, { x: a.x + abx * t, y: a.y + aby * t });
+};
@@ -0,0 +1,27 @@
+/// <reference lib="webworker" />
+import { simulateFixture } from '../engine/tournament';
+import { FixtureResult, Tournament } from '../types';
+
+// Web Worker entry: plays AI-vs-AI tournament fixtures off the UI thread (see simulationService)
+
+declare const self: DedicatedWorkerGlobalScope;
+
+export interface FixtureRequest {
+  requestId: number;
+  tournament: Tournament;
+  fixtureId: number;
+}
+
+export type FixtureResponse =
+  | { requestId: number; result: FixtureResult }
+  | { requestId: number; error: string };
+
+self.onmessage = ({ data }: MessageEvent<FixtureRequest>) => {
+  let response: FixtureResponse;
+  try {
+    response = { requestId: data.requestId, result: simulateFixture(data.tournament, data.tournament.fixtures[data.fixtureId]) };
+  } catch (err) {
+    response = { requestId: data.requestId, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
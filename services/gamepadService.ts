@@ -0,0 +1,119 @@
+import { ControlInput, PadAssignments, Team } from '../types';
+
+// Gamepad API support. Button indices follow the W3C "standard" mapping, which
+// Chrome and Electron use for Xbox/PlayStation-style USB pads.
+const BUTTON = {
+  A: 0, // Shoot (Cross on PlayStation)
+  B: 1, // Pass (Circle)
+  X: 2, // Switch player (Square)
+  Y: 3, // Slide tackle (Triangle)
+  LB: 4, // Switch player, alternative
+  RB: 5, // Slide tackle, alternative
+  LT: 6, // Sprint, alternative
+  RT: 7, // Sprint
+  DPAD_UP: 12,
+  DPAD_DOWN: 13,
+  DPAD_LEFT: 14,
+  DPAD_RIGHT: 15,
+};
+
+const STICK_DEAD_ZONE = 0.2;
+
+export interface ConnectedPad {
+  index: number;
+  id: string; // Browser-reported name, e.g. "Xbox 360 Controller (XInput STANDARD GAMEPAD)"
+}
+
+const getPads = (): (Gamepad | null)[] =>
+  typeof navigator !== 'undefined' && navigator.getGamepads ? Array.from(navigator.getGamepads()) : [];
+
+export const listGamepads = (): ConnectedPad[] =>
+  getPads()
+    .filter((pad): pad is Gamepad => !!pad && pad.connected)
+    .map(pad => ({ index: pad.index, id: pad.id }));
+
+const pressed = (pad: Gamepad, button: number) => !!pad.buttons[button]?.pressed;
+
+/** Any button held right now, so the setup screen can show which physical pad is which. */
+export const isAnyButtonPressed = (index: number): boolean => {
+  const pad = getPads()[index];
+  return !!pad && pad.buttons.some(b => b.pressed);
+};
+
+/** Reads one pad as a controller input: left stick (or D-pad) moves, face buttons act. */
+export const readGamepad = (index: number): ControlInput | null => {
+  const pad = getPads()[index];
+  if (!pad || !pad.connected) return null;
+
+  let x = pad.axes[0] ?? 0;
+  let y = pad.axes[1] ?? 0;
+  const magnitude = Math.sqrt(x * x + y * y);
+  if (magnitude < STICK_DEAD_ZONE) {
+    x = 0;
+    y = 0;
+  } else {
+    // Rescale so the stick ramps up from zero at the edge of the dead zone
+    const scaled = Math.min(1, (magnitude - STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE));
+    x = (x / magnitude) * scaled;
+    y = (y / magnitude) * scaled;
+  }
+
+  // D-pad overrides the stick when held
+  const dx = (pressed(pad, BUTTON.DPAD_RIGHT) ? 1 : 0) - (pressed(pad, BUTTON.DPAD_LEFT) ? 1 : 0);
+  const dy = (pressed(pad, BUTTON.DPAD_DOWN) ? 1 : 0) - (pressed(pad, BUTTON.DPAD_UP) ? 1 : 0);
+  if (dx !== 0 || dy !== 0) {
+    const len = Math.sqrt(dx * dx + dy * dy);
+    x = dx / len;
+    y = dy / len;
+  }
+
+  return {
+    move: { x, y },
+    shoot: pressed(pad, BUTTON.A),
+    pass: pressed(pad, BUTTON.B),
+    switchPlayer: pressed(pad, BUTTON.X) || pressed(pad, BUTTON.LB),
+    tackle: pressed(pad, BUTTON.Y) || pressed(pad, BUTTON.RB),
+    sprint: pressed(pad, BUTTON.RT) || pressed(pad, BUTTON.LT),
+  };
+};
+
+/**
+ * Combines a team's keyboard input with every pad assigned to it: the first
+ * pad with the stick pushed steers, buttons from any source count.
+ */
+export const mergeWithGamepads = (keyboard: ControlInput, team: Team, assignments: PadAssignments): ControlInput => {
+  let merged = keyboard;
+  Object.entries(assignments).forEach(([index, assigned]) => {
+    if (assigned !== team) return;
+    const pad = readGamepad(Number(index));
+    if (!pad) return;
+    const padMoving = pad.move.x !== 0 || pad.move.y !== 0;
+    merged = {
+      move: padMoving && merged.move.x === 0 && merged.move.y === 0 ? pad.move : merged.move,
+      shoot: merged.shoot || pad.shoot,
+      pass: merged.pass || pad.pass,
+      switchPlayer: merged.switchPlayer || pad.switchPlayer,
+      tackle: merged.tackle || pad.tackle,
+      sprint: merged.sprint || pad.sprint,
+    };
+  });
+  return merged;
+};
+
+/**
+ * Keeps the user's choices for pads still connected and gives newly connected
+ * pads a default: first free of Blue/Red, otherwise unused.
+ */
+export const autoAssignPads = (current: PadAssignments): PadAssignments => {
+  const pads = listGamepads();
+  const next: PadAssignments = {};
+  pads.forEach(({ index }) => {
+    if (index in current) next[index] = current[index];
+  });
+  pads.forEach(({ index }) => {
+    if (index in next) return;
+    const taken = Object.values(next);
+    next[index] = [Team.BLUE, Team.RED].find(team => !taken.includes(team)) ?? null;
+  });
+  return next;
+};
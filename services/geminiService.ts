@@ -30,7 +30,7 @@ const FALLBACK_MESSAGES: {[key: string]: string[]} = {
   ]
 };
 
-const getFallback = (event: string): string => {
+const getFallback = (event: string, random: () => number): string => {
   let category = 'generic';
   
   if (event.includes('득점') || event.includes('골')) category = 'goal';
@@ -40,7 +40,7 @@ const getFallback = (event: string): string => {
 
   if (category in FALLBACK_MESSAGES) {
       const msgs = FALLBACK_MESSAGES[category];
-      return msgs[Math.floor(Math.random() * msgs.length)];
+      return msgs[Math.floor(random() * msgs.length)];
   }
   return event; // Return original text if no specific fallback found
 };
@@ -52,14 +52,17 @@ const getAI = () => {
   return genAI;
 };
 
-export const generateCommentary = async (event: string, context: string): Promise<string> => {
+// `teamNames` are the two sides' roster names, which the commentator must use as given.
+// `random` picks among the fallback lines; pass the match's seeded generator for reproducible commentary
+export const generateCommentary = async (event: string, context: string, teamNames: [string, string], random: () => number = Math.random): Promise<string> => {
+  const [home, away] = teamNames;
   // 오프라인 체크
   if (!navigator.onLine) {
-    return getFallback(event);
+    return getFallback(event, random);
   }
 
   const ai = getAI();
-  if (!ai) return getFallback(event);
+  if (!ai) return getFallback(event, random);
 
   try {
     const prompt = `
@@ -68,13 +71,13 @@ export const generateCommentary = async (event: string, context: string): Promis
       맥락: "${context}".
       
       지침:
-      1. 팀 명칭은 반드시 '블루팀', '레드팀'으로 정확히 부르세요. (예: '블루', '청팀' 사용 금지)
+      1. 팀 명칭은 반드시 '${home}', '${away}'(이)라고 정확히 부르세요. (줄임말이나 다른 이름 사용 금지)
       2. 텍스트에 **굵게** 표시나 *기울임* 같은 마크다운 형식을 절대 사용하지 마세요.
       3. 해시태그(#)나 특수문자(~, -, @, ^, * 등)를 포함하지 마세요.
       4. 오직 아나운서가 소리내어 읽기 자연스러운 구어체 한글과 문장 부호(!, ?, ., ,)만 사용하세요.
       5. 매우 짧고 임팩트 있게 한 문장으로 외치세요 (최대 10단어).
       
-      좋은 예시: "골! 블루팀이 환상적인 중거리 슛을 꽂아 넣습니다!", "아! 레드팀 골키퍼의 슈퍼 세이브입니다!"
+      좋은 예시: "골! ${home}, 환상적인 중거리 슛을 꽂아 넣습니다!", "아! ${away} 골키퍼의 슈퍼 세이브입니다!"
     `;
 
     const response = await ai.models.generateContent({
@@ -97,6 +100,6 @@ export const generateCommentary = async (event: string, context: string): Promis
     }
     
     // Always return fallback text so the game continues smoothly
-    return getFallback(event);
+    return getFallback(event, random);
   }
 };
\ No newline at end of file
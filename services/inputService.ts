@@ -0,0 +1,79 @@
+import { ControlInput, Vector2 } from '../types';
+import { length, normalize } from '../engine/vector';
+
+// Keyboard layouts, as KeyboardEvent.code values
+export interface KeyBinding {
+  up: string[];
+  down: string[];
+  left: string[];
+  right: string[];
+  shoot: string[];
+  pass: string[];
+  switchPlayer: string[];
+  tackle: string[];
+  sprint: string[];
+}
+
+export const KEY_BINDINGS: { [name: string]: KeyBinding } = {
+  // One player vs AI: either hand position works
+  solo: {
+    up: ['KeyW', 'ArrowUp'],
+    down: ['KeyS', 'ArrowDown'],
+    left: ['KeyA', 'ArrowLeft'],
+    right: ['KeyD', 'ArrowRight'],
+    shoot: ['Space', 'KeyK'],
+    pass: ['KeyE', 'KeyJ'],
+    switchPlayer: ['KeyQ', 'KeyL'],
+    tackle: ['KeyR', 'KeyI'],
+    sprint: ['ShiftLeft', 'Semicolon'],
+  },
+  // Hot-seat: left side of the keyboard
+  player1: {
+    up: ['KeyW'],
+    down: ['KeyS'],
+    left: ['KeyA'],
+    right: ['KeyD'],
+    shoot: ['Space'],
+    pass: ['KeyE'],
+    switchPlayer: ['KeyQ'],
+    tackle: ['KeyR'],
+    sprint: ['ShiftLeft'],
+  },
+  // Hot-seat: right side of the keyboard
+  player2: {
+    up: ['ArrowUp', 'KeyI'],
+    down: ['ArrowDown', 'KeyK'],
+    left: ['ArrowLeft', 'KeyJ'],
+    right: ['ArrowRight', 'KeyL'],
+    shoot: ['Enter', 'NumpadEnter'],
+    pass: ['ShiftRight'],
+    switchPlayer: ['Slash'],
+    tackle: ['Period'],
+    sprint: ['ControlRight', 'Comma'],
+  },
+};
+
+const anyHeld = (keys: { [key: string]: boolean }, codes: string[]) => codes.some(code => keys[code]);
+
+/**
+ * Translates held keys into a controller input for the simulation.
+ * A non-zero `stick` (touch joystick) overrides the movement keys.
+ */
+export const readKeyboard = (keys: { [key: string]: boolean }, binding: KeyBinding, stick: Vector2 = { x: 0, y: 0 }): ControlInput => {
+  const buttons = {
+    shoot: anyHeld(keys, binding.shoot),
+    pass: anyHeld(keys, binding.pass),
+    switchPlayer: anyHeld(keys, binding.switchPlayer),
+    tackle: anyHeld(keys, binding.tackle),
+    sprint: anyHeld(keys, binding.sprint),
+  };
+  if (length(stick) > 0) return { move: stick, ...buttons };
+
+  let dx = 0;
+  let dy = 0;
+  if (anyHeld(keys, binding.up)) dy = -1;
+  if (anyHeld(keys, binding.down)) dy = 1;
+  if (anyHeld(keys, binding.left)) dx = -1;
+  if (anyHeld(keys, binding.right)) dx = 1;
+  return { move: normalize({ x: dx, y: dy }), ...buttons };
+};
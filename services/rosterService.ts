@@ -0,0 +1,26 @@
+import { DEFAULT_ROSTERS } from '../constants';
+import { isRosters, rostersWithDefaultAttributes } from '../engine/roster';
+import { Rosters } from '../types';
+import { loadTeamSetups } from './tacticsService';
+
+// Both teams' names, kits and squads are kept in localStorage between sessions.
+const STORAGE_KEY = 'creative-soccer.rosters';
+
+export const loadRosters = (): Rosters => {
+  try {
+    // Squads saved before players had their own ratings take them from the saved formation
+    const saved = rostersWithDefaultAttributes(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'), loadTeamSetups());
+    return isRosters(saved) ? saved : DEFAULT_ROSTERS;
+  } catch {
+    // Storage blocked or the entry is corrupt; fall back to the defaults
+    return DEFAULT_ROSTERS;
+  }
+};
+
+export const saveRosters = (rosters: Rosters) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rosters));
+  } catch {
+    // Private browsing or full storage: the rosters still apply to this session
+  }
+};
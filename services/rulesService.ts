@@ -0,0 +1,24 @@
+import { DEFAULT_MATCH_RULES } from '../constants';
+import { isMatchRules } from '../engine/rules';
+import { MatchRules } from '../types';
+
+// The free-play match format is kept in localStorage between sessions.
+const STORAGE_KEY = 'creative-soccer.rules';
+
+export const loadMatchRules = (): MatchRules => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return isMatchRules(saved) ? saved : DEFAULT_MATCH_RULES;
+  } catch {
+    // Storage blocked or the entry is corrupt; fall back to the defaults
+    return DEFAULT_MATCH_RULES;
+  }
+};
+
+export const saveMatchRules = (rules: MatchRules) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch {
+    // Private browsing or full storage: the rules still apply to this session
+  }
+};
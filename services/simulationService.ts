@@ -0,0 +1,58 @@
+import { simulateFixture } from '../engine/tournament';
+import { Fixture, FixtureResult, Tournament } from '../types';
+import type { FixtureRequest, FixtureResponse } from './fixtureWorker';
+
+// AI-vs-AI fixtures take seconds to play out tick by tick, so they run in a Web Worker
+// and the page stays responsive. Where a worker can't be started they run in place.
+
+interface Pending {
+  tournament: Tournament;
+  fixture: Fixture;
+  resolve: (result: FixtureResult) => void;
+  reject: (err: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, Pending>();
+
+const runInPlace = (tournament: Tournament, f: Fixture): Promise<FixtureResult> =>
+  new Promise(resolve => setTimeout(() => resolve(simulateFixture(tournament, f)), 0));
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  try {
+    worker = new Worker(new URL('./fixtureWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    workerFailed = true;
+    return null;
+  }
+  worker.onmessage = ({ data }: MessageEvent<FixtureResponse>) => {
+    const request = pending.get(data.requestId);
+    if (!request) return;
+    pending.delete(data.requestId);
+    if ('result' in data) request.resolve(data.result);
+    else request.reject(new Error(data.error));
+  };
+  // The worker script couldn't be loaded (or crashed): play whatever was waiting in place
+  worker.onerror = () => {
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    pending.forEach(request => runInPlace(request.tournament, request.fixture).then(request.resolve, request.reject));
+    pending.clear();
+  };
+  return worker;
+};
+
+/** Plays `f` out like simulateFixture, without blocking the page while it does. */
+export const simulateFixtureInBackground = (tournament: Tournament, f: Fixture): Promise<FixtureResult> => {
+  const target = typeof Worker === 'undefined' ? null : getWorker();
+  if (!target) return runInPlace(tournament, f);
+  return new Promise((resolve, reject) => {
+    const request: FixtureRequest = { requestId: nextRequestId++, tournament, fixtureId: f.id };
+    pending.set(request.requestId, { tournament, fixture: f, resolve, reject });
+    target.postMessage(request);
+  });
+};
@@ -0,0 +1,24 @@
+import { DEFAULT_TEAM_SETUPS } from '../constants';
+import { isTeamSetups } from '../engine/formation';
+import { TeamSetups } from '../types';
+
+// Both teams' formations and tactics are kept in localStorage between sessions.
+const STORAGE_KEY = 'creative-soccer.teamSetups';
+
+export const loadTeamSetups = (): TeamSetups => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return isTeamSetups(saved) ? saved : DEFAULT_TEAM_SETUPS;
+  } catch {
+    // Storage blocked or the entry is corrupt; fall back to the defaults
+    return DEFAULT_TEAM_SETUPS;
+  }
+};
+
+export const saveTeamSetups = (setups: TeamSetups) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(setups));
+  } catch {
+    // Private browsing or full storage: the setup still applies to this session
+  }
+};
@@ -0,0 +1,35 @@
+import { DEFAULT_MATCH_RULES, DEFAULT_TEAM_SETUPS } from '../constants';
+import { withDefaultAttributes } from '../engine/roster';
+import { decisiveRules } from '../engine/rules';
+import { isTournament } from '../engine/tournament';
+import { Team, Tournament } from '../types';
+
+// The tournament in progress is kept in localStorage, so it survives closing the app between matches.
+const STORAGE_KEY = 'creative-soccer.tournament';
+
+export const loadTournament = (): Tournament | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    // Tournaments saved before match rules existed were played as four quarters, with simulated shootouts
+    const withRules = saved && !saved.rules ? { ...saved, rules: decisiveRules(DEFAULT_MATCH_RULES) } : saved;
+    // and before players had their own ratings, with the defaults for the standard formation
+    const roles = DEFAULT_TEAM_SETUPS[Team.BLUE].formation.map(slot => slot.role);
+    const migrated = Array.isArray(withRules?.teams)
+      ? { ...withRules, teams: withRules.teams.map((t: any) => t ? { ...t, roster: withDefaultAttributes(t.roster, roles) } : t) }
+      : withRules;
+    return isTournament(migrated) ? migrated : null;
+  } catch {
+    // Storage blocked or the entry is corrupt; start without one
+    return null;
+  }
+};
+
+/** Saves `tournament`, or forgets the saved one when given null. */
+export const saveTournament = (tournament: Tournament | null) => {
+  try {
+    if (tournament) localStorage.setItem(STORAGE_KEY, JSON.stringify(tournament));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Private browsing or full storage: the tournament still runs for this session
+  }
+};
@@ -5,12 +5,104 @@ export enum Team {
   RED = 'RED',
 }
 
+export enum GameMode {
+  SINGLE = '1P', // Blue is human, Red is AI
+  VERSUS = '2P', // Hot-seat: both teams human on one keyboard
+}
+
+// How a match that is level at the end of normal time is settled
+export enum TieBreak {
+  NONE = 'none', // It stays a draw
+  GOLDEN_GOAL = 'goldenGoal', // One period of extra time that ends at the first goal, then penalties if still level
+  SHOOTOUT = 'shootout', // Straight to penalties
+}
+
+// Match format, chosen before kickoff
+export interface MatchRules {
+  periods: number; // 1, 2 (halves) or 4 (quarters)
+  periodLength: number; // Seconds; extra time lasts one period
+  tieBreak: TieBreak;
+}
+
+export enum Difficulty {
+  EASY = 'easy',
+  NORMAL = 'normal',
+  HARD = 'hard',
+  LEGEND = 'legend',
+}
+
+// How well an AI team plays; see AI_PROFILES
+export interface AiProfile {
+  label: string;
+  description: string;
+  reactionDelay: number; // Seconds the AI's picture of the ball lags behind; also how long a keeper takes to react to a shot
+  activeRange: { defender: number; midfielder: number; forward: number }; // px from the ball within which a player chases it
+  shotVariance: number; // Radians of random spread on shots
+  shootingDistance: number; // px from goal inside which a player will consider a shot
+  decisionNoise: number; // Random error in how the AI rates shooting, passing and dribbling options
+  keeperReach: number; // Extra px a keeper can reach beyond touching the ball
+}
+
 export enum PlayerRole {
   GOALKEEPER = 'GK',
   DEFENDER = 'DEF',
+  MIDFIELDER = 'MID',
   FORWARD = 'FWD',
 }
 
+// A place in a formation, in pitch-relative coordinates for a team attacking left to right:
+// x runs 0 (own goal line) to 1 (opponents' goal line), y 0 (top touchline) to 1 (bottom).
+// Outfield slots are where the player stands with the ball on the centre spot.
+export interface FormationSlot {
+  role: PlayerRole;
+  x: number;
+  y: number;
+}
+
+// Five slots, the goalkeeper first; a player's `slot` indexes into it
+export type Formation = FormationSlot[];
+
+// Team instructions, each 0..1 with 0.5 as the neutral setting
+export interface Tactics {
+  lineHeight: number; // How far up the pitch the outfield players hold their shape
+  pressing: number; // How far from the ball players will go to chase it
+  width: number; // How far apart the shape is spread across the pitch
+}
+
+export interface TeamSetup {
+  formation: Formation;
+  tactics: Tactics;
+}
+
+export type TeamSetups = { [key in Team]: TeamSetup };
+
+export interface RosterPlayer {
+  name: string; // May be empty; the shirt number is used instead
+  number: number; // Shirt number, 1..99
+  attributes: PlayerAttributes; // The player's own ratings, whatever slot they line up in
+}
+
+// A team's name, kit and squad, as set in the roster editor
+export interface TeamRoster {
+  name: string; // Used on the scoreboard, in commentary and read out by TTS
+  shortCode: string; // Up to 4 characters, e.g. "3-1"
+  primaryColor: string; // Shirt colour, #rrggbb
+  secondaryColor: string; // Shirt number colour, #rrggbb
+  players: RosterPlayer[]; // By formation slot, the goalkeeper first
+}
+
+export type Rosters = { [key in Team]: TeamRoster };
+
+// Player ratings, each 0..1 with 0.5 an average player (see engine/attributes.ts)
+export interface PlayerAttributes {
+  pace: number; // Running and sprinting speed
+  acceleration: number; // How quickly they get up to speed and change direction
+  shotPower: number;
+  accuracy: number; // How little shots and passes stray
+  tackling: number; // Cleaner slide tackles, so fewer fouls
+  keeping: number; // Goalkeepers: reach, diving and holding on to hard shots
+}
+
 export interface Entity {
   pos: Vector2;
   vel: Vector2;
@@ -23,13 +115,20 @@ export interface Player extends Entity {
   jerseyNum: number;
   team: Team;
   role: PlayerRole;
-  speed: number;
-  kickPower: number;
-  cooldown: number; // For kicking
+  slot: number; // Index into the team's formation
+  attributes: PlayerAttributes;
+  stamina: number; // 0..1, drains while sprinting
+  sprinting: boolean; // Running flat out this tick
+  cooldown: number; // Seconds until the player may kick again
+  facing: Vector2; // Unit vector the player last moved in; the ball is dribbled along it
+  slideTime: number; // Seconds left in a slide tackle (sliding, then getting up); 0 when on their feet
+  diveTime: number; // Goalkeepers: seconds left in a dive (in the air, then getting up)
 }
 
 export interface Ball extends Entity {
   ownerId: number | null; // ID of player currently dribbling
+  lastTouchId: number | null; // Last player to kick, carry or deflect it; decides out-of-play restarts
+  sinceKick: number; // Seconds since it was last kicked, passed or thrown
 }
 
 export interface GameConfig {
@@ -39,6 +138,240 @@ export interface GameConfig {
   matchDuration: number; // Seconds
 }
 
+// Per-tick controller state for a human-controlled team
+export interface ControlInput {
+  move: Vector2; // Direction with length <= 1 (analog sticks may be shorter), zero when idle
+  shoot: boolean;
+  pass: boolean;
+  switchPlayer: boolean; // Acts on the press, not while held
+  tackle: boolean; // Slide tackle, on the press
+  sprint: boolean; // While held, for as long as stamina lasts
+}
+
+// Teams without an entry are driven entirely by the AI
+export type MatchInputs = { [key in Team]?: ControlInput };
+
+export interface MatchState {
+  seed: number; // Seed the match was created with
+  rngState: number; // PRNG state after the last tick
+  players: Player[];
+  ball: Ball;
+  activePlayerIds: { [key in Team]: number }; // Player steered by each team's controller
+  switchHold: { [key in Team]: number }; // Seconds left during which auto-switch respects a manual switch
+  shotCharge: { [key in Team]: number }; // 0..1 while the shoot button is held
+  prevInputs: MatchInputs; // Last tick's inputs, to detect button presses
+  setPiece: SetPiece | null; // Dead-ball restart waiting to be taken; play is stopped while set
+  aiDifficulty: { [key in Team]: Difficulty }; // Profile each team's AI players use
+  aiBallView: { [key in Team]: Vector2 }; // Where each team's AI thinks the ball is, lagging by its reaction delay
+  teams: TeamSetups; // Formation and tactics both the AI and kickoffs follow
+  rosters: Rosters; // Names, kits and shirt numbers; nothing in the simulation depends on them
+}
+
+// Restarts the referee gives for a foul or the ball going out
+export type RestartKind = 'freeKick' | 'penalty' | 'throwIn' | 'corner' | 'goalKick';
+
+export type SetPieceKind = RestartKind | 'kickoff';
+
+export interface SetPiece {
+  kind: SetPieceKind;
+  team: Team; // Team taking it
+  takerId: number;
+  wait: number; // Seconds until the taker may play the ball
+}
+
+export type MatchEvent =
+  | { type: 'kick'; playerId: number }
+  | { type: 'pass'; playerId: number; targetId: number }
+  | { type: 'goal'; team: Team; scorerId: number | null } // Scorer is the last player to touch it; may be an own goal
+  | { type: 'possession'; playerId: number | null; team: Team | null }
+  | { type: 'tackle'; playerId: number }
+  | { type: 'save'; playerId: number; caught: boolean } // Keeper stopped a shot on target; parried if not caught
+  | { type: 'foul'; playerId: number; victimId: number; restart: RestartKind }
+  | { type: 'out'; restart: RestartKind; team: Team }; // Ball left the pitch; `team` takes the restart
+
+// One player's numbers over a match, as counted by engine/stats
+export interface PlayerStats {
+  playerId: number;
+  team: Team;
+  slot: number; // Formation slot, for the roster name
+  jerseyNum: number;
+  shots: number;
+  shotsOnTarget: number;
+  goals: number; // Own goals aren't counted here
+  passes: number;
+  passesCompleted: number; // Next touch was a teammate's
+  tackles: number; // Slide tackles attempted
+  fouls: number;
+  saves: number;
+}
+
+export interface GoalRecord {
+  team: Team; // Team credited with the goal
+  scorerId: number | null;
+  jerseyNum: number | null;
+  ownGoal: boolean;
+  period: number; // 1-based
+  time: number; // Seconds into the period
+  minute: number; // Match minute, 1-based, counting every period played before
+}
+
+export type ShotOutcome = 'goal' | 'saved' | 'missed'; // Missed covers wide, over the line and blocked
+
+export interface ShotRecord {
+  playerId: number;
+  team: Team;
+  pos: Vector2; // Where the ball was struck from
+  outcome: ShotOutcome;
+  period: number;
+}
+
+// How often something was in each cell of a grid laid over the pitch, row by row
+export interface HeatGrid {
+  cols: number;
+  rows: number;
+  cells: number[];
+}
+
+export interface MatchStats {
+  possession: { [key in Team]: number }; // Ticks each team had the ball (or last had it, while loose)
+  players: PlayerStats[];
+  goals: GoalRecord[];
+  shots: ShotRecord[];
+  heat: { players: { [playerId: number]: HeatGrid }; ball: HeatGrid }; // Position samples, for the heatmaps
+}
+
+export interface ShootoutKick {
+  team: Team;
+  takerId: number;
+  scored: boolean;
+}
+
+// A penalty shootout: the teams alternate, best of five each, then sudden death
+export interface Shootout {
+  firstTeam: Team; // Kicks first in every round
+  kicks: ShootoutKick[];
+}
+
+// Where the players and ball were on one tick, as kept for goal replays
+export interface HighlightFrame {
+  players: Pick<Player, 'id' | 'pos' | 'facing' | 'slideTime' | 'diveTime'>[];
+  ball: Vector2;
+  ownerId: number | null;
+}
+
+// A goal, clipped from the last few seconds before it went in
+export interface Highlight {
+  team: Team; // Credited with the goal
+  scorerId: number | null;
+  period: number;
+  score: { [key in Team]: number }; // After the goal
+  base: MatchState; // The tick before the goal; kits, shirt numbers and everything not in the frames come from it
+  frames: HighlightFrame[]; // Oldest first, ending with `base`
+}
+
+// Where a match is. The simulation steps from KICKOFF to GOAL_CELEBRATION; the clock only runs IN_PLAY.
+export enum MatchPhase {
+  PRE_MATCH = 'preMatch',
+  KICKOFF = 'kickoff', // Lined up at the centre spot until the first touch
+  IN_PLAY = 'inPlay',
+  STOPPAGE = 'stoppage', // Ball dead, waiting for a set piece to be taken
+  GOAL_CELEBRATION = 'goalCelebration', // After a goal, while the players walk back for the kickoff
+  PERIOD_BREAK = 'periodBreak', // Between periods, and before extra time or a shootout
+  FULL_TIME = 'fullTime',
+  SHOOTOUT = 'shootout',
+}
+
+// The phase machine's state; see engine/phase.ts
+export interface MatchClock {
+  phase: MatchPhase;
+  period: number; // 1-based; past the rules' periods it's extra time
+  ticksLeft: number; // Simulation ticks left in the period
+  phaseTicks: number; // Ticks since the phase began
+  score: { [key in Team]: number };
+  lastGoal: Team | null; // Who scored last, for the celebration
+}
+
+export interface StepResult {
+  state: MatchState;
+  events: MatchEvent[];
+}
+
+// Everything needed to re-simulate a match tick for tick
+export interface MatchReplay {
+  version: number;
+  seed: number;
+  config: GameConfig;
+  difficulty: Difficulty; // Red AI's difficulty
+  teams: TeamSetups;
+  rosters: Rosters;
+  rules: MatchRules; // Periods are named after these; a shootout isn't recorded
+  periods: MatchInputs[][]; // Per-tick inputs, one list per period (each period starts from startPeriod)
+}
+
+export enum TournamentFormat {
+  KNOCKOUT = 'knockout', // Single-elimination bracket, with byes when the field isn't a power of two
+  GROUPS = 'groups', // Round-robin groups; with more than one group, the top two of each go into a knockout
+}
+
+// A team entered in a tournament
+export interface TournamentTeam {
+  roster: TeamRoster;
+  human: boolean; // Played at the keyboard; AI-vs-AI fixtures can be simulated instead
+  difficulty: Difficulty; // How the AI plays it when nobody is at the controls
+}
+
+export interface FixtureResult {
+  home: number; // Goals
+  away: number;
+  penalties: { home: number; away: number } | null; // Shootout that settled a drawn knockout tie
+  simulated: boolean; // Decided by simulation rather than played
+}
+
+// One match in a tournament. Teams are indices into Tournament.teams; a knockout
+// side is null until the fixture named in its `...From` has been won.
+export interface Fixture {
+  id: number;
+  stage: 'group' | 'knockout';
+  group: number | null; // Index into Tournament.groups for group fixtures
+  round: number; // 1-based within the stage
+  home: number | null;
+  away: number | null;
+  homeFrom: number | null; // Knockout: fixture whose winner becomes the home side
+  awayFrom: number | null;
+  result: FixtureResult | null;
+}
+
+export interface Tournament {
+  name: string;
+  format: TournamentFormat;
+  seed: number; // Draw and fixture seeds come from it
+  teams: TournamentTeam[];
+  groups: number[][]; // Team indices in each group; empty for a straight knockout
+  fixtures: Fixture[];
+  rules: MatchRules; // Every fixture's format; `tieBreak` settles knockout ties and is never NONE
+}
+
+// A team's line in a group table
+export interface Standing {
+  team: number;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  points: number;
+}
+
+// Who has the ball, as shown on the scoreboard
+export interface BallHolder {
+  team: Team;
+  jerseyNum: number;
+}
+
+// Which team each connected gamepad (by Gamepad.index) drives; null = set to unused by the user
+export type PadAssignments = { [padIndex: number]: Team | null };
+
 export interface CommentaryLog {
   id: string;
   text: string;